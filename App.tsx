@@ -1,14 +1,17 @@
-import React, { useState } from 'react';
+import React from 'react';
 import MapGroundingApp from './components/MapGroundingApp';
 import LiveChatApp from './components/LiveChatApp';
 import ImageAnalysisApp from './components/ImageAnalysisApp';
 import GeneralTextChatApp from './components/GeneralTextChatApp';
 import ComplexQueryApp from './components/ComplexQueryApp';
-
-type AppMode = 'maps' | 'live-chat' | 'image-analysis' | 'general-chat' | 'complex-query';
+import { AppMode } from './types';
+import { useRoute } from './hooks/useRoute';
 
 const App: React.FC = () => {
-  const [activeMode, setActiveMode] = useState<AppMode>('maps');
+  // The mode and Local Guide search live in the URL, so reloads and shared links keep them
+  const { route, navigate } = useRoute();
+  const activeMode = route.mode;
+  const setActiveMode = (mode: AppMode) => navigate({ mode, localGuide: null });
 
   const getModeTitle = (mode: AppMode) => {
     switch (mode) {
@@ -24,7 +27,12 @@ const App: React.FC = () => {
   const renderActiveComponent = () => {
     switch (activeMode) {
       case 'maps':
-        return <MapGroundingApp />;
+        return (
+          <MapGroundingApp
+            link={route.localGuide}
+            onLinkChange={(link, replace) => navigate({ mode: 'maps', localGuide: link }, replace)}
+          />
+        );
       case 'live-chat':
         return <LiveChatApp />;
       case 'image-analysis':
@@ -0,0 +1,43 @@
+import React from 'react';
+import { GroundingSource } from '../types';
+
+interface CitationMarkerProps {
+  numbers: number[]; // Source numbers, from 1
+  sources: GroundingSource[];
+}
+
+/**
+ * Superscript source numbers after a supported sentence. Hovering or focusing a number
+ * shows the source's title and snippet; clicking opens the source.
+ */
+const CitationMarker: React.FC<CitationMarkerProps> = ({ numbers, sources }) => (
+  <sup className="ml-0.5 whitespace-nowrap">
+    {numbers.map((number) => {
+      const source = sources[number - 1];
+      if (!source) return null;
+      return (
+        <span key={number} className="relative group inline-block">
+          <a
+            href={source.uri}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="px-0.5 text-indigo-600 font-semibold no-underline hover:text-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-300 rounded"
+            aria-label={`Source ${number}: ${source.title}`}
+          >
+            [{number}]
+          </a>
+          <span
+            role="tooltip"
+            className="hidden group-hover:block group-focus-within:block absolute z-20 left-1/2 -translate-x-1/2 bottom-full mb-1 w-64 p-2 rounded-md shadow-lg bg-gray-900 text-white text-xs font-normal leading-snug whitespace-normal text-left"
+          >
+            <span className="block font-semibold">{source.title}</span>
+            {source.snippet && <span className="block mt-1 text-gray-300">{source.snippet}</span>}
+          </span>
+        </span>
+      );
+    })}
+  </sup>
+);
+
+export default CitationMarker;
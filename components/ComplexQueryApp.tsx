@@ -1,43 +1,54 @@
 import React, { useState } from 'react';
-import { sendComplexQuery } from '../services/geminiService';
+import { streamComplexQuery } from '../services/geminiService';
+import { isCancellation } from '../services/errors';
+import { useAbortController } from '../hooks/useAbortController';
+import Markdown from './Markdown';
+import ErrorNotice from './ErrorNotice';
 
 const ComplexQueryApp: React.FC = () => {
   const [query, setQuery] = useState<string>('');
   const [result, setResult] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
+  // A new question or leaving the tab cancels the one still being answered
+  const request = useAbortController();
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!query.trim()) {
       setError('Please enter your complex query.');
       return;
     }
+    runQuery();
+  };
 
+  const runQuery = async () => {
+    const signal = request.start();
     setLoading(true);
     setError(null);
     setResult('');
 
     try {
-      const response = await sendComplexQuery(query);
+      const response = await streamComplexQuery(query, setResult, signal);
       setResult(response);
     } catch (err) {
+      if (isCancellation(err)) return;
       console.error('Complex query error:', err);
-      setError((err as Error).message || 'An unexpected error occurred during complex query processing.');
+      setError(err as Error);
     } finally {
-      setLoading(false);
+      // A cancelled request leaves the state to whoever cancelled it
+      if (!signal.aborted) {
+        setLoading(false);
+      }
     }
   };
 
-  const renderMarkdown = (markdown: string) => {
-    const html = markdown
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') // Bold
-      .replace(/\*(.*?)\*/g, '<em>$1</em>') // Italic
-      .split('\n').map((p, idx) => p.trim() && <p key={idx} className="mb-2">{p}</p>); // Paragraphs
-    return <div className="space-y-2">{html}</div>;
+  // Keeps the answer written so far
+  const handleStop = () => {
+    request.abort();
+    setLoading(false);
   };
 
-
   return (
     <div className="flex flex-col h-full bg-gray-50 p-6 rounded-lg shadow-xl">
       <h2 className="text-3xl font-extrabold text-gray-800 mb-6 text-center">Complex Query with Gemini Pro</h2>
@@ -46,9 +57,14 @@ const ComplexQueryApp: React.FC = () => {
       </p>
 
       {error && (
-        <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg" role="alert">
-          <span className="font-medium">Error:</span> {error}
-        </div>
+        <ErrorNotice
+          error={error}
+          onRetry={runQuery}
+          hints={{
+            safety: 'Rephrase your question, leaving out anything that could be read as harmful.',
+            timeout: 'Long reasoning can run out of time. Try again, or split the question into smaller ones.',
+          }}
+        />
       )}
 
       <form onSubmit={handleSubmit} className="space-y-4 mb-6">
@@ -64,30 +80,43 @@ const ComplexQueryApp: React.FC = () => {
             disabled={loading}
           ></textarea>
         </div>
-        <button
-          type="submit"
-          className="w-full flex items-center justify-center px-5 py-3 border border-transparent text-base font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
-          disabled={loading || !query.trim()}
-        >
-          {loading ? (
-            <>
-              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              Thinking...
-            </>
-          ) : (
-            'Get Detailed Answer'
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            className="flex-grow flex items-center justify-center px-5 py-3 border border-transparent text-base font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={loading || !query.trim()}
+          >
+            {loading && result ? (
+              'Writing answer...'
+            ) : loading ? (
+              <>
+                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                Thinking...
+              </>
+            ) : (
+              'Get Detailed Answer'
+            )}
+          </button>
+          {loading && (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="px-5 py-3 border border-purple-300 text-base font-medium rounded-md text-purple-700 bg-white hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2"
+            >
+              Stop
+            </button>
           )}
-        </button>
+        </div>
       </form>
 
       {result && (
         <div className="mt-4 p-4 bg-purple-50 rounded-lg shadow-inner flex-grow overflow-y-auto">
           <h3 className="text-xl font-semibold text-purple-800 mb-4">Gemini's Answer:</h3>
           <div className="text-gray-700 leading-relaxed">
-            {renderMarkdown(result)}
+            <Markdown text={result} streaming={loading} />
           </div>
         </div>
       )}
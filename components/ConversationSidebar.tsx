@@ -0,0 +1,137 @@
+import React, { useState, useMemo } from 'react';
+import { Conversation } from '../types';
+import {
+  conversationTitle,
+  searchConversations,
+  renameConversation,
+  setConversationPinned,
+  deleteConversation,
+} from '../services/conversationStore';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (conversation: Conversation) => void;
+  onCreate: () => void;
+  onDeleted: (id: string) => void;
+  disabled?: boolean; // While a reply or Live session is running
+  error?: string | null;
+}
+
+const formatUpdated = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString(undefined, { timeStyle: 'short' })
+    : date.toLocaleDateString(undefined, { dateStyle: 'medium' });
+};
+
+/**
+ * Saved conversations for General Chat or Live: create, rename, pin, delete and
+ * full-text search.
+ */
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeId,
+  onSelect,
+  onCreate,
+  onDeleted,
+  disabled = false,
+  error: loadError,
+}) => {
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const matches = useMemo(() => searchConversations(conversations, searchQuery), [conversations, searchQuery]);
+
+  const run = (action: Promise<void>) => {
+    action.catch((err) => {
+      console.error('Conversation update failed:', err);
+      setError((err as Error).message || 'Could not update the conversation.');
+    });
+  };
+
+  const handleRename = (conversation: Conversation) => {
+    const title = window.prompt('Rename conversation', conversationTitle(conversation));
+    if (title === null) return;
+    run(renameConversation(conversation.id, title));
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (!window.confirm(`Delete "${conversationTitle(conversation)}"?`)) return;
+    run(deleteConversation(conversation.id).then(() => onDeleted(conversation.id)));
+  };
+
+  return (
+    <aside className="w-full md:w-64 flex-shrink-0 flex flex-col gap-3 md:pr-4 md:border-r border-gray-200">
+      <button
+        type="button"
+        onClick={onCreate}
+        disabled={disabled}
+        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold rounded-md shadow disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        + New conversation
+      </button>
+      <input
+        type="search"
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        placeholder="Search conversations..."
+        aria-label="Search conversations"
+        className="p-2 text-sm rounded-md border border-gray-300 focus:ring-2 focus:ring-indigo-300 focus:border-transparent text-gray-900"
+      />
+
+      {(error || loadError) && (
+        <div className="p-2 text-xs text-red-700 bg-red-100 rounded-lg" role="alert">
+          {error || loadError}
+        </div>
+      )}
+
+      <ul className="flex-grow overflow-y-auto space-y-1 max-h-48 md:max-h-none">
+        {matches.length === 0 && (
+          <li className="text-sm text-gray-400 p-2">
+            {searchQuery.trim() ? 'No conversations match.' : 'No saved conversations yet.'}
+          </li>
+        )}
+        {matches.map(({ conversation, snippet }) => (
+          <li key={conversation.id}>
+            <div
+              className={`group p-2 rounded-md text-sm ${
+                conversation.id === activeId ? 'bg-indigo-100 text-indigo-900' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(conversation)}
+                disabled={disabled}
+                className="w-full text-left disabled:cursor-not-allowed"
+                aria-current={conversation.id === activeId ? 'true' : undefined}
+              >
+                <span className="block font-medium truncate">
+                  {conversation.pinned && <span aria-label="Pinned">📌 </span>}
+                  {conversationTitle(conversation)}
+                </span>
+                {snippet && <span className="block text-xs text-gray-500 truncate">{snippet}</span>}
+                <span className="block text-xs text-gray-400">
+                  {formatUpdated(conversation.updatedAt)} · {conversation.messages.length} message(s)
+                </span>
+              </button>
+              <div className="flex gap-3 mt-1 text-xs text-gray-500 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                <button type="button" onClick={() => run(setConversationPinned(conversation.id, !conversation.pinned))} className="hover:text-indigo-700">
+                  {conversation.pinned ? 'Unpin' : 'Pin'}
+                </button>
+                <button type="button" onClick={() => handleRename(conversation)} className="hover:text-indigo-700">
+                  Rename
+                </button>
+                <button type="button" onClick={() => handleDelete(conversation)} disabled={disabled && conversation.id === activeId} className="hover:text-red-700 disabled:opacity-50">
+                  Delete
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default ConversationSidebar;
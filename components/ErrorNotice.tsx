@@ -0,0 +1,104 @@
+import React from 'react';
+import { ServiceErrorKind, ServiceError, classifyError } from '../services/errors';
+
+export interface RecoveryAction {
+  label: string;
+  onClick: () => void;
+}
+
+interface ErrorNoticeProps {
+  error: Error | string; // A string is the mode's own message, e.g. about an empty form field
+  onRetry?: () => void; // Repeats the failed request; offered when a second try may work
+  hints?: Partial<Record<ServiceErrorKind, string>>; // Advice that fits the mode better than the default
+  actions?: Partial<Record<ServiceErrorKind, RecoveryAction>>; // Replaces Retry for that kind
+  className?: string; // Spacing around the box
+}
+
+const GUIDANCE: Record<ServiceErrorKind, { title: string; hint: string; retry: boolean }> = {
+  'invalid-key': {
+    title: 'The API key was rejected',
+    hint: 'Check GEMINI_API_KEY in .env.local, then restart the proxy server (npm run server).',
+    retry: false,
+  },
+  'rate-limit': {
+    title: 'Too many requests',
+    hint: 'The request limit or quota was reached. Wait a minute, then try again.',
+    retry: true,
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    hint: 'Rephrase your request and try again.',
+    retry: false,
+  },
+  'empty-response': {
+    title: 'No answer',
+    hint: 'The model returned nothing. Try again, or rephrase your request.',
+    retry: true,
+  },
+  network: {
+    title: 'Connection problem',
+    hint: 'Check your internet connection and that the proxy server is running, then try again.',
+    retry: true,
+  },
+  timeout: {
+    title: 'The request timed out',
+    hint: 'The model took too long to answer. Try again, or ask for something simpler.',
+    retry: true,
+  },
+  unavailable: {
+    title: 'The model is unavailable',
+    hint: 'The service is overloaded or down. Try again in a moment.',
+    retry: true,
+  },
+  cancelled: {
+    title: 'Stopped',
+    hint: 'The request was stopped before it finished.',
+    retry: true,
+  },
+  unknown: {
+    title: 'Something went wrong',
+    hint: '',
+    retry: true,
+  },
+};
+
+/**
+ * The red error box of every mode. Service failures get a title, advice and a recovery
+ * action that fit their kind; the mode can refine both.
+ */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, hints, actions, className = 'mb-4' }) => {
+  if (typeof error === 'string') {
+    return (
+      <div className={`p-4 text-sm text-red-700 bg-red-100 rounded-lg ${className}`} role="alert">
+        <span className="font-medium">Error:</span> {error}
+      </div>
+    );
+  }
+
+  const kind = classifyError(error);
+  const guidance = GUIDANCE[kind];
+  const waitSeconds = error instanceof ServiceError && error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : null;
+  const hint = [hints?.[kind] ?? guidance.hint, kind === 'rate-limit' && waitSeconds ? `You can try again in about ${waitSeconds} s.` : '']
+    .filter(Boolean)
+    .join(' ');
+  const action = actions?.[kind] ?? (onRetry && guidance.retry ? { label: 'Retry', onClick: onRetry } : null);
+
+  return (
+    <div className={`p-4 text-sm text-red-700 bg-red-100 rounded-lg ${className}`} role="alert">
+      <p className="font-semibold">{guidance.title}</p>
+      <p className="mt-1 break-words">{error.message}</p>
+      {hint && <p className="mt-1 text-red-800">{hint}</p>}
+      {action && (
+        <button
+          type="button"
+          onClick={action.onClick}
+          className="mt-3 px-3 py-1 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+        >
+          {action.label}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { EXPORT_FORMATS, ExportFormat, PlaceExportRecord, exportFilename, exportPlaces } from '../services/placeExport';
+import { downloadFile } from '../services/download';
+
+interface ExportMenuProps {
+  name: string; // Collection name, also used for the file name
+  records: () => PlaceExportRecord[]; // Built on demand, when a format is picked
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Downloads a set of places as GeoJSON, KML, GPX or CSV.
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ name, records, disabled = false, className = '' }) => {
+  const handleExport = (format: ExportFormat) => {
+    const { mimeType } = EXPORT_FORMATS[format];
+    downloadFile(exportFilename(name, format), exportPlaces(records(), format, name), mimeType);
+  };
+
+  return (
+    <select
+      value=""
+      onChange={(e) => e.target.value && handleExport(e.target.value as ExportFormat)}
+      disabled={disabled}
+      aria-label="Export places"
+      className={`p-1 text-sm rounded-md border disabled:opacity-50 ${className}`}
+    >
+      <option value="" disabled>Export as...</option>
+      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+        <option key={format} value={format}>
+          {EXPORT_FORMATS[format].label}{format === 'gpx' ? ' (places with coordinates)' : ''}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default ExportMenu;
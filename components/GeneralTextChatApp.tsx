@@ -1,13 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { sendGeneralChatMessage } from '../services/geminiService';
-import { ChatMessage } from '../types';
+import { ChatSession } from '../services/chatSession';
+import { ChatMessage, Conversation } from '../types';
+import { useConversations } from '../hooks/useConversations';
+import { useAbortController } from '../hooks/useAbortController';
+import { isCancellation } from '../services/errors';
+import { createConversation, saveConversationMessages } from '../services/conversationStore';
+import ConversationSidebar from './ConversationSidebar';
+import Markdown from './Markdown';
+import ErrorNotice from './ErrorNotice';
 
 const GeneralTextChatApp: React.FC = () => {
   const [inputMessage, setInputMessage] = useState<string>('');
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState<string>('');
   const chatHistoryRef = useRef<HTMLDivElement>(null);
+  const sessionRef = useRef<ChatSession>(new ChatSession());
+  const request = useAbortController(); // Leaving the tab stops the reply being written
+
+  // Saved conversations; a new one is only stored once its first message is sent
+  const { conversations, loaded: conversationsLoaded, error: conversationsError } = useConversations('chat');
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const restoredRef = useRef<boolean>(false);
 
   useEffect(() => {
     if (chatHistoryRef.current) {
@@ -15,116 +31,222 @@ const GeneralTextChatApp: React.FC = () => {
     }
   }, [chatHistory]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!inputMessage.trim()) return;
+  const handleSelectConversation = (conversation: Conversation) => {
+    sessionRef.current = new ChatSession({ messages: conversation.messages, summary: conversation.summary });
+    setActiveConversationId(conversation.id);
+    setChatHistory(conversation.messages);
+    setEditingId(null);
+    setError(null);
+  };
 
-    const userMessage: ChatMessage = {
-      id: Date.now().toString() + '-user',
-      sender: 'user',
-      text: inputMessage,
-      timestamp: new Date(),
-    };
-    setChatHistory((prev) => [...prev, userMessage]);
-    setInputMessage('');
-    setLoading(true);
+  const handleNewConversation = () => {
+    sessionRef.current = new ChatSession();
+    setActiveConversationId(null);
+    setChatHistory([]);
+    setEditingId(null);
     setError(null);
+  };
 
+  // Reopen the most recently updated conversation when the tab is shown again
+  useEffect(() => {
+    if (!conversationsLoaded || restoredRef.current) return;
+    restoredRef.current = true;
+    const latest = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+    if (latest) {
+      handleSelectConversation(latest);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [conversationsLoaded]);
+
+  // Runs one session call; the session reports every change (including streamed text).
+  // The conversation is saved afterwards, whether the reply succeeded, failed or was stopped.
+  const runChat = async (action: (session: ChatSession, signal: AbortSignal) => Promise<ChatMessage[]>) => {
+    const signal = request.start();
+    setLoading(true);
+    setError(null);
+    const session = sessionRef.current;
+    let conversationId = activeConversationId;
     try {
-      const modelResponseText = await sendGeneralChatMessage(userMessage.text);
-      const modelMessage: ChatMessage = {
-        id: Date.now().toString() + '-model',
-        sender: 'model',
-        text: modelResponseText,
-        timestamp: new Date(),
-      };
-      setChatHistory((prev) => [...prev, modelMessage]);
+      if (!conversationId) {
+        conversationId = (await createConversation('chat')).id;
+        setActiveConversationId(conversationId);
+      }
+      await action(session, signal);
     } catch (err) {
-      console.error('General chat error:', err);
-      setError((err as Error).message || 'An unexpected error occurred during chat.');
-      setChatHistory((prev) => [
-        ...prev,
-        { id: Date.now().toString() + '-error', sender: 'model', text: `Error: ${(err as Error).message}`, timestamp: new Date() },
-      ]);
+      if (!isCancellation(err)) {
+        console.error('General chat error:', err);
+        setError(err as Error);
+      }
     } finally {
       setLoading(false);
     }
+
+    if (conversationId) {
+      const { messages, summary } = session.getState();
+      try {
+        await saveConversationMessages(conversationId, messages, summary);
+      } catch (err) {
+        console.error('Failed to save conversation:', err);
+        setError((err as Error).message || 'Could not save the conversation.');
+      }
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inputMessage.trim()) return;
+
+    const text = inputMessage;
+    setInputMessage('');
+    await runChat((session, signal) => session.send(text, setChatHistory, signal));
   };
 
-  const renderMarkdown = (markdown: string) => {
-    const html = markdown
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') // Bold
-      .replace(/\*(.*?)\*/g, '<em>$1</em>') // Italic
-      .split('\n').map((p, idx) => p.trim() && <p key={idx} className="mb-2">{p}</p>); // Paragraphs
-    return <div className="space-y-2">{html}</div>;
+  const handleStartEdit = (message: ChatMessage) => {
+    setEditingId(message.id);
+    setEditText(message.text);
   };
 
-  return (
-    <div className="flex flex-col h-full bg-gray-50 p-6 rounded-lg shadow-xl">
-      <h2 className="text-3xl font-extrabold text-gray-800 mb-6 text-center">General Chat with Gemini Flash Lite</h2>
-      <p className="text-gray-600 mb-6 text-center">Ask quick questions and get low-latency responses.</p>
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !editText.trim()) return;
 
-      {error && (
-        <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg" role="alert">
-          <span className="font-medium">Error:</span> {error}
-        </div>
-      )}
+    const messageId = editingId;
+    setEditingId(null);
+    await runChat((session, signal) => session.edit(messageId, editText, setChatHistory, signal));
+  };
 
-      <div ref={chatHistoryRef} className="flex-grow overflow-y-auto p-4 border border-gray-200 rounded-lg bg-white mb-6 space-y-4 shadow-inner">
-        {chatHistory.length === 0 && (
-          <div className="text-center text-gray-400 py-10">
-            Start a conversation!
-          </div>
+  const handleRegenerate = () => runChat((session, signal) => session.regenerate(setChatHistory, signal));
+
+  const lastMessage = chatHistory[chatHistory.length - 1];
+  const streaming = loading && lastMessage?.sender === 'model';
+  const summarizedCount = sessionRef.current.getSummarizedCount();
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4 h-full bg-gray-50 p-6 rounded-lg shadow-xl">
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={activeConversationId}
+        onSelect={handleSelectConversation}
+        onCreate={handleNewConversation}
+        onDeleted={(id) => id === activeConversationId && handleNewConversation()}
+        disabled={loading}
+        error={conversationsError}
+      />
+      <div className="flex flex-col flex-grow min-w-0">
+        <h2 className="text-3xl font-extrabold text-gray-800 mb-6 text-center">General Chat with Gemini Flash Lite</h2>
+        <p className="text-gray-600 mb-6 text-center">Ask quick questions and get low-latency responses.</p>
+
+        {error && (
+          <ErrorNotice
+            error={error}
+            // Only a message left without a reply can be sent again
+            onRetry={!loading && lastMessage?.sender === 'user' ? handleRegenerate : undefined}
+            hints={{ safety: 'Edit your message and send it again.' }}
+            actions={!loading && lastMessage?.sender === 'user' ? {
+              safety: { label: 'Edit message', onClick: () => handleStartEdit(lastMessage) },
+            } : undefined}
+          />
         )}
-        {chatHistory.map((message) => (
-          <div
-            key={message.id}
-            className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}
-          >
+
+        <div ref={chatHistoryRef} className="flex-grow overflow-y-auto p-4 border border-gray-200 rounded-lg bg-white mb-6 space-y-4 shadow-inner">
+          {chatHistory.length === 0 && (
+            <div className="text-center text-gray-400 py-10">
+              Start a conversation!
+            </div>
+          )}
+          {summarizedCount > 0 && (
+            <p className="text-center text-xs text-gray-400">
+              The {summarizedCount} oldest messages are sent to Gemini as a summary.
+            </p>
+          )}
+          {chatHistory.map((message) => (
             <div
-              className={`max-w-xs md:max-w-md p-3 rounded-lg ${
-                message.sender === 'user'
-                  ? 'bg-indigo-600 text-white'
-                  : 'bg-gray-200 text-gray-800'
-              }`}
+              key={message.id}
+              className={`group flex flex-col ${message.sender === 'user' ? 'items-end' : 'items-start'}`}
             >
-              {renderMarkdown(message.text)}
+              {editingId === message.id ? (
+                <form onSubmit={handleSaveEdit} className="w-full max-w-md space-y-2">
+                  <textarea
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    rows={3}
+                    autoFocus
+                    className="w-full p-2 rounded-md border border-indigo-300 focus:ring-2 focus:ring-indigo-300 focus:border-transparent text-gray-900 resize-none"
+                  />
+                  <div className="flex justify-end gap-2 text-sm">
+                    <button type="button" onClick={() => setEditingId(null)} className="px-3 py-1 text-gray-600 hover:underline">
+                      Cancel
+                    </button>
+                    <button type="submit" disabled={!editText.trim()} className="px-3 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+                      Save & regenerate
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div
+                  className={`max-w-xs md:max-w-md p-3 rounded-lg ${
+                    message.sender === 'user'
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-200 text-gray-800'
+                  }`}
+                >
+                  <Markdown text={message.text} streaming={streaming && message === lastMessage} />
+                </div>
+              )}
+              {!loading && editingId !== message.id && (
+                <div className="flex gap-3 mt-1 text-xs text-gray-500 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                  {message.sender === 'user' && (
+                    <button type="button" onClick={() => handleStartEdit(message)} className="hover:text-indigo-700">
+                      Edit
+                    </button>
+                  )}
+                  {message.sender === 'model' && message === lastMessage && (
+                    <button type="button" onClick={handleRegenerate} className="hover:text-indigo-700">
+                      Regenerate
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
-          </div>
-        ))}
-        {loading && (
-          <div className="flex justify-start">
-            <div className="max-w-xs md:max-w-md p-3 rounded-lg bg-gray-100 text-gray-600 animate-pulse">
-              Typing...
+          ))}
+          {loading && !streaming && (
+            <div className="flex justify-start">
+              <div className="max-w-xs md:max-w-md p-3 rounded-lg bg-gray-100 text-gray-600 animate-pulse">
+                Typing...
+              </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
 
-      <form onSubmit={handleSubmit} className="flex space-x-3">
-        <input
-          type="text"
-          value={inputMessage}
-          onChange={(e) => setInputMessage(e.target.value)}
-          placeholder="Type your message..."
-          className="flex-grow p-3 rounded-md border border-gray-300 focus:ring-2 focus:ring-indigo-300 focus:border-transparent text-gray-900"
-          disabled={loading}
-        />
-        <button
-          type="submit"
-          className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-md shadow-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-          disabled={loading || !inputMessage.trim()}
-        >
+        <form onSubmit={handleSubmit} className="flex space-x-3">
+          <input
+            type="text"
+            value={inputMessage}
+            onChange={(e) => setInputMessage(e.target.value)}
+            placeholder="Type your message..."
+            className="flex-grow p-3 rounded-md border border-gray-300 focus:ring-2 focus:ring-indigo-300 focus:border-transparent text-gray-900"
+            disabled={loading}
+          />
           {loading ? (
-            <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-            </svg>
+            // The reply so far is kept
+            <button
+              type="button"
+              onClick={request.abort}
+              className="px-6 py-3 border border-indigo-300 bg-white hover:bg-indigo-50 text-indigo-700 font-semibold rounded-md shadow-lg transition-colors duration-200"
+            >
+              Stop
+            </button>
           ) : (
-            'Send'
+            <button
+              type="submit"
+              className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-md shadow-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={!inputMessage.trim()}
+            >
+              Send
+            </button>
           )}
-        </button>
-      </form>
+        </form>
+      </div>
     </div>
   );
 };
@@ -1,6 +1,10 @@
 import React, { useState, useRef } from 'react';
 import { analyzeImage } from '../services/geminiService';
+import { isCancellation } from '../services/errors';
+import { useAbortController } from '../hooks/useAbortController';
 import { ImageDataPart } from '../types';
+import Markdown from './Markdown';
+import ErrorNotice from './ErrorNotice';
 
 const ImageAnalysisApp: React.FC = () => {
   const [imagePreview, setImagePreview] = useState<string | null>(null);
@@ -8,8 +12,9 @@ const ImageAnalysisApp: React.FC = () => {
   const [prompt, setPrompt] = useState<string>('What do you see in this image?');
   const [analysisResult, setAnalysisResult] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const request = useAbortController();
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -42,7 +47,7 @@ const ImageAnalysisApp: React.FC = () => {
     }
   };
 
-  const handleAnalyzeImage = async (e: React.FormEvent) => {
+  const handleAnalyzeImage = (e: React.FormEvent) => {
     e.preventDefault();
     if (!base64Image) {
       setError('Please upload an image first.');
@@ -52,19 +57,26 @@ const ImageAnalysisApp: React.FC = () => {
       setError('Please enter a prompt for the image analysis.');
       return;
     }
+    runAnalysis(base64Image);
+  };
 
+  const runAnalysis = async (image: ImageDataPart) => {
+    const signal = request.start();
     setLoading(true);
     setError(null);
     setAnalysisResult('');
 
     try {
-      const result = await analyzeImage(base64Image, prompt);
+      const result = await analyzeImage(image, prompt, signal);
       setAnalysisResult(result);
     } catch (err) {
+      if (isCancellation(err)) return;
       console.error('Image analysis error:', err);
-      setError((err as Error).message || 'An unexpected error occurred during image analysis.');
+      setError(err as Error);
     } finally {
-      setLoading(false);
+      if (!signal.aborted) {
+        setLoading(false);
+      }
     }
   };
 
@@ -112,24 +124,20 @@ const ImageAnalysisApp: React.FC = () => {
     }
   };
 
-  // Function to render markdown-like text
-  const renderMarkdown = (markdown: string) => {
-    const html = markdown
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') // Bold
-      .replace(/\*(.*?)\*/g, '<em>$1</em>') // Italic
-      .split('\n').map((p, idx) => p.trim() && <p key={idx} className="mb-2">{p}</p>); // Paragraphs
-    return <div className="space-y-2">{html}</div>;
-  };
-
   return (
     <div className="flex flex-col h-full bg-gray-50 p-6 rounded-lg shadow-xl">
       <h2 className="text-3xl font-extrabold text-gray-800 mb-6 text-center">Image Analysis with Gemini</h2>
       <p className="text-gray-600 mb-6 text-center">Upload an image and ask Gemini to analyze or describe it.</p>
 
       {error && (
-        <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg" role="alert">
-          <span className="font-medium">Error:</span> {error}
-        </div>
+        <ErrorNotice
+          error={error}
+          onRetry={base64Image ? () => runAnalysis(base64Image) : undefined}
+          hints={{
+            safety: 'Try a different image, or ask about it in other words.',
+            'empty-response': 'Try again, or ask a more specific question about the image.',
+          }}
+        />
       )}
 
       <div className="flex flex-col md:flex-row gap-6 flex-grow">
@@ -211,7 +219,7 @@ const ImageAnalysisApp: React.FC = () => {
             <div className="mt-4 p-4 bg-blue-50 rounded-lg shadow-inner flex-grow overflow-y-auto">
               <h3 className="text-xl font-semibold text-blue-800 mb-4">Gemini's Analysis:</h3>
               <div className="text-gray-700 leading-relaxed">
-                {renderMarkdown(analysisResult)}
+                <Markdown text={analysisResult} />
               </div>
             </div>
           )}
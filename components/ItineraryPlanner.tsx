@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react';
+import { Itinerary, Place, UserLocation } from '../types';
+import { planItinerary } from '../services/geminiService';
+import {
+  addMealStop,
+  formatTime,
+  itineraryOverrun,
+  itineraryToIcs,
+  itineraryToMarkdown,
+  moveStop,
+  parseTime,
+  removeStop,
+  stopEndMinutes,
+  updateStop,
+} from '../services/itinerary';
+import { formatDuration } from '../services/geo';
+import { downloadFile } from '../services/download';
+import { isCancellation } from '../services/errors';
+import { useAbortController } from '../hooks/useAbortController';
+import ErrorNotice from './ErrorNotice';
+
+interface ItineraryPlannerProps {
+  places: Place[]; // The current recommendations to choose from
+  origin: UserLocation | null;
+}
+
+const today = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Day planner: pick some of the recommendations, get a timed plan from the reasoning
+ * model, then adjust it. Start times are recomputed after every edit.
+ */
+const ItineraryPlanner: React.FC<ItineraryPlannerProps> = ({ places, origin }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [date, setDate] = useState<string>(today);
+  const [startTime, setStartTime] = useState<string>('09:00');
+  const [endTime, setEndTime] = useState<string>('18:00');
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  const [plannedPlaces, setPlannedPlaces] = useState<Place[]>([]); // Kept with the plan, as a new search replaces `places`
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | string | null>(null);
+  const request = useAbortController();
+
+  // A new search replaces the places; forget selections that no longer exist
+  useEffect(() => {
+    setSelectedIds((ids) => ids.filter((id) => places.some((place) => place.id === id)));
+  }, [places]);
+
+  const togglePlace = (placeId: string) => {
+    setSelectedIds((ids) => (ids.includes(placeId) ? ids.filter((id) => id !== placeId) : [...ids, placeId]));
+  };
+
+  const handlePlan = (e: React.FormEvent) => {
+    e.preventDefault();
+    planDay();
+  };
+
+  const planDay = async () => {
+    const startMinutes = parseTime(startTime);
+    const endMinutes = parseTime(endTime);
+    if (startMinutes === null || endMinutes === null || endMinutes <= startMinutes) {
+      setError('The end time must be after the start time.');
+      return;
+    }
+    const signal = request.start();
+    setLoading(true);
+    setError(null);
+    try {
+      const selected = places.filter((place) => selectedIds.includes(place.id));
+      setItinerary(await planItinerary(selected, { date, startMinutes, endMinutes, origin }, signal));
+      setPlannedPlaces(selected);
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error('Itinerary planning error:', err);
+      setError(err as Error);
+    } finally {
+      if (!signal.aborted) {
+        setLoading(false);
+      }
+    }
+  };
+
+  // Keeps the previous plan, if there is one
+  const handleStop = () => {
+    request.abort();
+    setLoading(false);
+  };
+
+  const handleExport = (format: 'ics' | 'md') => {
+    if (!itinerary) return;
+    if (format === 'ics') {
+      downloadFile(`itinerary-${itinerary.date}.ics`, itineraryToIcs(itinerary, plannedPlaces), 'text/calendar');
+    } else {
+      downloadFile(`itinerary-${itinerary.date}.md`, itineraryToMarkdown(itinerary, plannedPlaces), 'text/markdown');
+    }
+  };
+
+  const overrun = itinerary ? itineraryOverrun(itinerary) : 0;
+
+  return (
+    <div className="p-4 bg-emerald-50 rounded-lg shadow-inner">
+      <h3 className="text-xl font-semibold text-emerald-800 mb-2">Plan a Day</h3>
+
+      {places.length === 0 ? (
+        <p className="text-gray-500">Run a search first, then pick the places you want to visit.</p>
+      ) : (
+        <form onSubmit={handlePlan} className="space-y-3">
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-1">Places to visit</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+              {places.map((place) => (
+                <label key={place.id} className="flex items-center gap-2 text-sm text-gray-800">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(place.id)}
+                    onChange={() => togglePlace(place.id)}
+                    className="rounded text-emerald-600 focus:ring-emerald-400"
+                  />
+                  <span className="truncate">{place.name}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="text-gray-700">
+              Date
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} required className="block p-1 rounded-md border border-gray-300 text-gray-900" />
+            </label>
+            <label className="text-gray-700">
+              Start
+              <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} required className="block p-1 rounded-md border border-gray-300 text-gray-900" />
+            </label>
+            <label className="text-gray-700">
+              End
+              <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} required className="block p-1 rounded-md border border-gray-300 text-gray-900" />
+            </label>
+            <button
+              type="submit"
+              disabled={loading || selectedIds.length === 0}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold rounded-md shadow disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Planning...' : `Plan my day (${selectedIds.length})`}
+            </button>
+            {loading && (
+              <button
+                type="button"
+                onClick={handleStop}
+                className="px-4 py-2 border border-emerald-300 bg-white hover:bg-emerald-50 text-emerald-700 font-semibold rounded-md shadow"
+              >
+                Stop
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <ErrorNotice
+          error={error}
+          onRetry={selectedIds.length > 0 ? planDay : undefined}
+          hints={{
+            timeout: 'Planning many places takes a while. Try again, or plan fewer places.',
+            unknown: 'The plan could not be read. Try again; the planner usually gets it right the second time.',
+          }}
+          className="mt-3"
+        />
+      )}
+
+      {loading && (
+        <p className="mt-3 text-sm text-emerald-700 animate-pulse">Gemini Pro is working out the best order. This can take a minute.</p>
+      )}
+
+      {itinerary && !loading && (
+        <div className="mt-4">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <p className="text-sm text-gray-700">
+              {itinerary.date}, {formatTime(itinerary.startMinutes)}–{formatTime(itinerary.endMinutes)}
+            </p>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => handleExport('ics')} className="px-3 py-1 text-sm rounded-md bg-white border border-emerald-300 text-emerald-800 hover:bg-emerald-100">
+                Export calendar (.ics)
+              </button>
+              <button type="button" onClick={() => handleExport('md')} className="px-3 py-1 text-sm rounded-md bg-white border border-emerald-300 text-emerald-800 hover:bg-emerald-100">
+                Export text (.md)
+              </button>
+            </div>
+          </div>
+          {itinerary.summary && <p className="mb-3 text-gray-700">{itinerary.summary}</p>}
+          {overrun > 0 && (
+            <p className="mb-3 text-sm text-amber-800 bg-amber-100 p-2 rounded-md" role="status">
+              The plan ends {formatDuration(overrun)} after {formatTime(itinerary.endMinutes)}. Shorten or remove a stop.
+            </p>
+          )}
+
+          <ol className="space-y-2">
+            {itinerary.stops.map((stop, index) => (
+              <li key={stop.id}>
+                {stop.travelMinutes > 0 && (
+                  <p className="pl-20 text-xs text-gray-500">↓ {formatDuration(stop.travelMinutes)} travel</p>
+                )}
+                <div className={`flex gap-3 p-3 rounded-md border bg-white ${stop.kind === 'meal' ? 'border-orange-200' : 'border-emerald-200'}`}>
+                  <div className="w-16 shrink-0 text-sm font-semibold text-gray-800">
+                    {formatTime(stop.startMinutes)}
+                    <span className="block text-xs font-normal text-gray-500">{formatTime(stopEndMinutes(stop))}</span>
+                  </div>
+                  <div className="flex-grow min-w-0 space-y-1">
+                    {stop.placeId ? (
+                      <p className="font-medium text-gray-800">{stop.kind === 'meal' && '🍽 '}{stop.name}</p>
+                    ) : (
+                      <input
+                        type="text"
+                        value={stop.name}
+                        onChange={(e) => setItinerary(updateStop(itinerary, stop.id, { name: e.target.value }))}
+                        aria-label="Stop name"
+                        className="w-full p-1 text-sm font-medium rounded-md border border-gray-300 text-gray-900"
+                      />
+                    )}
+                    <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+                      <label>
+                        Stay{' '}
+                        <input
+                          type="number"
+                          min={5}
+                          step={5}
+                          value={stop.durationMinutes}
+                          onChange={(e) => setItinerary(updateStop(itinerary, stop.id, { durationMinutes: Math.max(5, Number(e.target.value) || 0) }))}
+                          className="w-16 p-0.5 rounded border border-gray-300 text-gray-900"
+                        />{' '}
+                        min
+                      </label>
+                      <label>
+                        Travel before{' '}
+                        <input
+                          type="number"
+                          min={0}
+                          step={5}
+                          value={stop.travelMinutes}
+                          onChange={(e) => setItinerary(updateStop(itinerary, stop.id, { travelMinutes: Math.max(0, Number(e.target.value) || 0) }))}
+                          className="w-16 p-0.5 rounded border border-gray-300 text-gray-900"
+                        />{' '}
+                        min
+                      </label>
+                    </div>
+                    <input
+                      type="text"
+                      value={stop.note}
+                      onChange={(e) => setItinerary(updateStop(itinerary, stop.id, { note: e.target.value }))}
+                      placeholder="Add a note..."
+                      aria-label="Note"
+                      className="w-full p-1 text-xs rounded-md border border-gray-200 text-gray-700"
+                    />
+                  </div>
+                  <div className="flex flex-col gap-1 text-xs">
+                    <button type="button" onClick={() => setItinerary(moveStop(itinerary, index, index - 1, plannedPlaces, origin))} disabled={index === 0} aria-label="Move earlier" className="px-2 py-0.5 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-40">↑</button>
+                    <button type="button" onClick={() => setItinerary(moveStop(itinerary, index, index + 1, plannedPlaces, origin))} disabled={index === itinerary.stops.length - 1} aria-label="Move later" className="px-2 py-0.5 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-40">↓</button>
+                    <button type="button" onClick={() => setItinerary(removeStop(itinerary, stop.id))} aria-label="Remove stop" className="px-2 py-0.5 rounded border border-red-200 text-red-600 hover:bg-red-50">✕</button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+          <button type="button" onClick={() => setItinerary(addMealStop(itinerary, itinerary.stops.length - 1))} className="mt-2 text-sm text-emerald-700 hover:underline">
+            + Add a meal break
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ItineraryPlanner;
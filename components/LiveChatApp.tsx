@@ -1,22 +1,136 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { connectLiveSession } from '../services/geminiService';
+import { LivePlaceSearch, connectLiveSession } from '../services/geminiService';
 import { LiveServerMessage } from '@google/genai';
-import { ChatMessage } from '../types';
+import { ChatMessage, Conversation, UserLocation } from '../types';
+import { useConversations } from '../hooks/useConversations';
+import { useAbortController } from '../hooks/useAbortController';
+import { useLiveSettings } from '../hooks/useLiveSettings';
+import { liveLanguageName } from '../services/liveSettings';
+import { saveLiveSettings } from '../services/liveSettingsStore';
+import { createConversation, saveConversationMessages } from '../services/conversationStore';
+import { ServiceError, classifyError, isCancellation, toServiceError } from '../services/errors';
+import ConversationSidebar from './ConversationSidebar';
+import ErrorNotice from './ErrorNotice';
+import LivePlaceResults from './LivePlaceResults';
+import LiveSettingsPanel from './LiveSettingsPanel';
+
+// How long a voice search waits for the device location before asking for an area instead
+const GEOLOCATION_TIMEOUT_MS = 10000;
+
+function getDeviceLocation(): Promise<UserLocation | null> {
+  return new Promise((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude, source: 'device' }),
+      (geoError) => {
+        console.error('Geolocation error:', geoError);
+        resolve(null);
+      },
+      { timeout: GEOLOCATION_TIMEOUT_MS },
+    );
+  });
+}
 
 const LiveChatApp: React.FC = () => {
   const [isConnecting, setIsConnecting] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
   const [currentInputTranscription, setCurrentInputTranscription] = useState<string>('');
   const [currentOutputTranscription, setCurrentOutputTranscription] = useState<string>('');
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [placeSearches, setPlaceSearches] = useState<LivePlaceSearch[]>([]);
   const chatHistoryRef = useRef<HTMLDivElement>(null);
 
   // Store session promise and session object to manage connection
   const sessionPromiseRef = useRef<Promise<any> | null>(null);
   const sessionRef = useRef<any | null>(null);
+  // Leaving the tab closes the session and releases the microphone, even mid-connect
+  const liveRequest = useAbortController();
+
+  // Transcriptions are accumulated in refs as well: the session callbacks are created once
+  // per session and would otherwise only ever see the state from when it started.
+  const inputTranscriptionRef = useRef<string>('');
+  const outputTranscriptionRef = useRef<string>('');
+  const messagesRef = useRef<ChatMessage[]>([]);
+  // Asked for on the first voice search of a session, not before
+  const locationRef = useRef<Promise<UserLocation | null> | null>(null);
 
-  const systemInstruction = "You are a friendly and helpful assistant, ready to chat.";
+  // Every Live session is saved as its own conversation once the first turn completes
+  const { conversations, loaded: conversationsLoaded, error: conversationsError } = useConversations('live');
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const conversationIdRef = useRef<string | null>(null);
+  // Set while the first turn's conversation is being created, so later turns save into it
+  const conversationPromiseRef = useRef<Promise<string> | null>(null);
+  const restoredRef = useRef<boolean>(false);
+
+  // Read when a session starts; changes apply to the next one
+  const { settings: liveSettings, personas, error: settingsError } = useLiveSettings();
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  // The instruction in the settings panel is saved on blur; a session started before then
+  // must still use what the user typed
+  const [instruction, setInstruction] = useState<string>(liveSettings.instruction);
+  const personaName = personas.find((persona) => persona.id === liveSettings.personaId)?.name || 'Custom persona';
+
+  const showConversation = (conversationId: string | null, messages: ChatMessage[]) => {
+    conversationIdRef.current = conversationId;
+    conversationPromiseRef.current = null;
+    messagesRef.current = messages;
+    setActiveConversationId(conversationId);
+    setChatHistory(messages);
+  };
+
+  const handleSelectConversation = (conversation: Conversation) => {
+    showConversation(conversation.id, conversation.messages);
+    setPlaceSearches([]);
+    setError(null);
+  };
+
+  // Reopen the most recent transcript when the tab is shown again
+  useEffect(() => {
+    if (!conversationsLoaded || restoredRef.current) return;
+    restoredRef.current = true;
+    const latest = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+    if (latest) {
+      showConversation(latest.id, latest.messages);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [conversationsLoaded]);
+
+  const saveTranscript = async (messages: ChatMessage[]) => {
+    try {
+      const pending = conversationPromiseRef.current;
+      if (pending) {
+        await saveConversationMessages(await pending, messages);
+      } else if (!conversationIdRef.current) {
+        const creation = createConversation('live', messages).then((conversation) => conversation.id);
+        conversationPromiseRef.current = creation;
+        try {
+          const conversationId = await creation;
+          // Unless another conversation was shown meanwhile
+          if (conversationPromiseRef.current === creation) {
+            conversationIdRef.current = conversationId;
+            setActiveConversationId(conversationId);
+          }
+        } finally {
+          if (conversationPromiseRef.current === creation) {
+            conversationPromiseRef.current = null;
+          }
+        }
+      } else {
+        await saveConversationMessages(conversationIdRef.current, messages);
+      }
+    } catch (err) {
+      console.error('Failed to save Live transcript:', err);
+      setError((err as Error).message || 'Could not save the transcript.');
+    }
+  };
+
+  useEffect(() => {
+    setInstruction(liveSettings.instruction);
+  }, [liveSettings.instruction]);
 
   useEffect(() => {
     // Scroll to bottom of chat history on new messages
@@ -26,43 +140,55 @@ const LiveChatApp: React.FC = () => {
   }, [chatHistory, currentInputTranscription, currentOutputTranscription]);
 
   const handleStartConversation = async () => {
+    const signal = liveRequest.start();
+    const sessionInstruction = instruction.trim() || liveSettings.instruction;
+    if (sessionInstruction !== liveSettings.instruction) {
+      saveLiveSettings({ ...liveSettings, instruction: sessionInstruction })
+        .catch((err) => console.error('Failed to save Live settings:', err));
+    }
     setIsConnecting(true);
     setError(null);
     setCurrentInputTranscription('');
     setCurrentOutputTranscription('');
-    setChatHistory([]); // Clear history for a new conversation
+    inputTranscriptionRef.current = '';
+    outputTranscriptionRef.current = '';
+    locationRef.current = null;
+    setPlaceSearches([]);
+    showConversation(null, []); // Each session starts a new conversation
 
     try {
       const sessionCallbacks = {
         onMessage: async (message: LiveServerMessage) => {
           if (message.serverContent?.outputTranscription) {
-            const text = message.serverContent.outputTranscription.text;
-            setCurrentOutputTranscription((prev) => prev + text);
+            outputTranscriptionRef.current += message.serverContent.outputTranscription.text || '';
+            setCurrentOutputTranscription(outputTranscriptionRef.current);
           } else if (message.serverContent?.inputTranscription) {
-            const text = message.serverContent.inputTranscription.text;
-            setCurrentInputTranscription((prev) => prev + text);
+            inputTranscriptionRef.current += message.serverContent.inputTranscription.text || '';
+            setCurrentInputTranscription(inputTranscriptionRef.current);
           }
 
           if (message.serverContent?.turnComplete) {
-            if (currentInputTranscription.trim()) {
-              setChatHistory((prev) => [
-                ...prev,
-                { id: Date.now().toString() + '-user', sender: 'user', text: currentInputTranscription, timestamp: new Date() },
-              ]);
+            const turn: ChatMessage[] = [];
+            if (inputTranscriptionRef.current.trim()) {
+              turn.push({ id: Date.now().toString() + '-user', sender: 'user', text: inputTranscriptionRef.current, timestamp: new Date() });
             }
-            if (currentOutputTranscription.trim()) {
-              setChatHistory((prev) => [
-                ...prev,
-                { id: Date.now().toString() + '-model', sender: 'model', text: currentOutputTranscription, timestamp: new Date() },
-              ]);
+            if (outputTranscriptionRef.current.trim()) {
+              turn.push({ id: Date.now().toString() + '-model', sender: 'model', text: outputTranscriptionRef.current, timestamp: new Date() });
             }
+            inputTranscriptionRef.current = '';
+            outputTranscriptionRef.current = '';
             setCurrentInputTranscription('');
             setCurrentOutputTranscription('');
+            if (turn.length > 0) {
+              messagesRef.current = [...messagesRef.current, ...turn];
+              setChatHistory(messagesRef.current);
+              await saveTranscript(messagesRef.current);
+            }
           }
         },
         onError: (e: ErrorEvent) => {
           console.error('Live API Error:', e);
-          setError(`Live chat error: ${e.message}. Please try again.`);
+          setError(toServiceError(e.message || 'Unknown error', 'Live chat error'));
           setIsConnecting(false);
           setIsRecording(false);
         },
@@ -70,22 +196,45 @@ const LiveChatApp: React.FC = () => {
           console.log('Live API connection closed:', e);
           setIsConnecting(false);
           setIsRecording(false);
-          setError(e.code !== 1000 ? `Live chat disconnected: ${e.reason || 'Unknown error'}` : null);
+          // 1006 is a dropped connection, without a reason
+          setError(e.code !== 1000
+            ? new ServiceError(e.code === 1006 ? 'network' : classifyError(e.reason), `Live chat disconnected: ${e.reason || 'Unknown error'}`)
+            : null);
           sessionRef.current = null;
           sessionPromiseRef.current = null;
         },
       };
+      const placeSearch = {
+        getLocation: () => {
+          if (!locationRef.current) {
+            locationRef.current = getDeviceLocation();
+          }
+          return locationRef.current;
+        },
+        onUpdate: (search: LivePlaceSearch) => {
+          setPlaceSearches((searches) => searches.some((s) => s.id === search.id)
+            ? searches.map((s) => (s.id === search.id ? search : s))
+            : [...searches, search]);
+        },
+      };
       sessionPromiseRef.current = connectLiveSession(
         sessionCallbacks.onMessage,
         sessionCallbacks.onError,
         sessionCallbacks.onClose,
-        systemInstruction,
+        {
+          systemInstruction: sessionInstruction,
+          voiceName: liveSettings.voiceName,
+          languageCode: liveSettings.languageCode,
+          placeSearch,
+          signal,
+        },
       );
       sessionRef.current = await sessionPromiseRef.current; // Resolve the promise
       setIsRecording(true);
     } catch (err) {
+      if (isCancellation(err)) return;
       console.error("Failed to start live session:", err);
-      setError((err as Error).message || "Could not start live session. Check microphone permissions.");
+      setError(err as Error);
       setIsConnecting(false);
       setIsRecording(false);
     } finally {
@@ -103,91 +252,131 @@ const LiveChatApp: React.FC = () => {
   };
 
   return (
-    <div className="flex flex-col h-full bg-gray-50 p-6 rounded-lg shadow-xl">
-      <h2 className="text-3xl font-extrabold text-gray-800 mb-6 text-center">Live Chat with Gemini</h2>
-      <p className="text-gray-600 mb-6 text-center">Have a real-time voice conversation with our AI assistant.</p>
-
-      {error && (
-        <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg" role="alert">
-          <span className="font-medium">Error:</span> {error}
-        </div>
-      )}
-
-      {/* Chat history display */}
-      <div ref={chatHistoryRef} className="flex-grow overflow-y-auto p-4 border border-gray-200 rounded-lg bg-white mb-6 space-y-4 shadow-inner">
-        {chatHistory.length === 0 && !isRecording && (
-          <div className="text-center text-gray-400 py-10">
-            Click "Start Conversation" to begin.
-            <br />
-            {systemInstruction}
-          </div>
-        )}
-        {chatHistory.map((message) => (
-          <div
-            key={message.id}
-            className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}
+    <div className="flex flex-col md:flex-row gap-4 h-full bg-gray-50 p-6 rounded-lg shadow-xl">
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={activeConversationId}
+        onSelect={handleSelectConversation}
+        onCreate={() => showConversation(null, [])}
+        onDeleted={(id) => id === activeConversationId && showConversation(null, [])}
+        disabled={isRecording || isConnecting}
+        error={conversationsError}
+      />
+      <div className="flex flex-col flex-grow min-w-0">
+        <h2 className="text-3xl font-extrabold text-gray-800 mb-6 text-center">Live Chat with Gemini</h2>
+        <p className="text-gray-600 mb-2 text-center">Have a real-time voice conversation with our AI assistant.</p>
+        <div className="flex flex-wrap justify-center items-center gap-2 mb-4 text-sm text-gray-500">
+          <span>
+            {personaName} · {liveSettings.voiceName} voice
+            {liveSettings.languageCode && ` · ${liveLanguageName(liveSettings.languageCode)}`}
+          </span>
+          <button
+            type="button"
+            onClick={() => setShowSettings((shown) => !shown)}
+            aria-expanded={showSettings}
+            className="text-indigo-600 hover:text-indigo-800 font-medium"
           >
-            <div
-              className={`max-w-xs md:max-w-md p-3 rounded-lg ${
-                message.sender === 'user'
-                  ? 'bg-indigo-600 text-white'
-                  : 'bg-gray-200 text-gray-800'
-              }`}
-            >
-              {message.text}
-            </div>
-          </div>
-        ))}
-        {currentInputTranscription && (
-          <div className="flex justify-end">
-            <div className="max-w-xs md:max-w-md p-3 rounded-lg bg-indigo-200 text-indigo-900 animate-pulse-fade">
-              {currentInputTranscription}
-              <span className="ml-1 text-xs opacity-75"> (You)</span>
-            </div>
-          </div>
+            {showSettings ? 'Hide settings' : 'Settings'}
+          </button>
+        </div>
+        {settingsError && <p className="mb-4 text-sm text-center text-red-600">Could not load the saved settings: {settingsError}</p>}
+        {showSettings && (
+          <LiveSettingsPanel
+            settings={liveSettings}
+            personas={personas}
+            instruction={instruction}
+            onInstructionChange={setInstruction}
+            sessionActive={isRecording || isConnecting}
+          />
         )}
-        {currentOutputTranscription && (
-          <div className="flex justify-start">
-            <div className="max-w-xs md:max-w-md p-3 rounded-lg bg-blue-100 text-blue-900 animate-pulse-fade">
-              {currentOutputTranscription}
-              <span className="ml-1 text-xs opacity-75"> (Gemini)</span>
-            </div>
-          </div>
+
+        {error && (
+          <ErrorNotice
+            error={error}
+            onRetry={!isRecording && !isConnecting ? handleStartConversation : undefined}
+            hints={{ unknown: 'If the microphone is blocked, allow it for this site, then start again.' }}
+          />
         )}
-      </div>
 
-      {/* Control buttons */}
-      <div className="flex justify-center space-x-4">
-        {!isRecording ? (
-          <button
-            onClick={handleStartConversation}
-            className="flex items-center px-6 py-3 bg-green-500 hover:bg-green-600 text-white font-semibold rounded-full shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-            disabled={isConnecting}
-          >
-            {isConnecting ? (
-              <>
-                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Connecting...
-              </>
-            ) : (
-              <>
-                <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd"></path></svg>
-                Start Conversation
-              </>
+        <div className="flex flex-col lg:flex-row gap-4 flex-grow min-h-0 mb-6">
+          {/* Chat history display */}
+          <div ref={chatHistoryRef} className="flex-grow min-w-0 overflow-y-auto p-4 border border-gray-200 rounded-lg bg-white space-y-4 shadow-inner">
+            {chatHistory.length === 0 && !isRecording && (
+              <div className="text-center text-gray-400 py-10">
+                Click "Start Conversation" to begin.
+                <br />
+                Chat about anything, or ask for places nearby, e.g. "find a good coffee shop near me".
+              </div>
             )}
-          </button>
-        ) : (
-          <button
-            onClick={handleStopConversation}
-            className="flex items-center px-6 py-3 bg-red-500 hover:bg-red-600 text-white font-semibold rounded-full shadow-lg transition-all duration-200"
-          >
-            <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 9a1 1 0 00-1 1v2a1 1 0 102 0v-2a1 1 0 00-1-1zm3 0a1 1 0 00-1 1v2a1 1 0 102 0v-2a1 1 0 00-1-1z" clipRule="evenodd"></path></svg>
-            Stop Conversation
-          </button>
-        )}
+            {chatHistory.map((message) => (
+              <div
+                key={message.id}
+                className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}
+              >
+                <div
+                  className={`max-w-xs md:max-w-md p-3 rounded-lg ${
+                    message.sender === 'user'
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-200 text-gray-800'
+                  }`}
+                >
+                  {message.text}
+                </div>
+              </div>
+            ))}
+            {currentInputTranscription && (
+              <div className="flex justify-end">
+                <div className="max-w-xs md:max-w-md p-3 rounded-lg bg-indigo-200 text-indigo-900 animate-pulse-fade">
+                  {currentInputTranscription}
+                  <span className="ml-1 text-xs opacity-75"> (You)</span>
+                </div>
+              </div>
+            )}
+            {currentOutputTranscription && (
+              <div className="flex justify-start">
+                <div className="max-w-xs md:max-w-md p-3 rounded-lg bg-blue-100 text-blue-900 animate-pulse-fade">
+                  {currentOutputTranscription}
+                  <span className="ml-1 text-xs opacity-75"> (Gemini)</span>
+                </div>
+              </div>
+            )}
+          </div>
+          <LivePlaceResults searches={placeSearches} />
+        </div>
+
+        {/* Control buttons */}
+        <div className="flex justify-center space-x-4">
+          {!isRecording ? (
+            <button
+              onClick={handleStartConversation}
+              className="flex items-center px-6 py-3 bg-green-500 hover:bg-green-600 text-white font-semibold rounded-full shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isConnecting}
+            >
+              {isConnecting ? (
+                <>
+                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  Connecting...
+                </>
+              ) : (
+                <>
+                  <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd"></path></svg>
+                  Start Conversation
+                </>
+              )}
+            </button>
+          ) : (
+            <button
+              onClick={handleStopConversation}
+              className="flex items-center px-6 py-3 bg-red-500 hover:bg-red-600 text-white font-semibold rounded-full shadow-lg transition-all duration-200"
+            >
+              <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 9a1 1 0 00-1 1v2a1 1 0 102 0v-2a1 1 0 00-1-1zm3 0a1 1 0 00-1 1v2a1 1 0 102 0v-2a1 1 0 00-1-1z" clipRule="evenodd"></path></svg>
+              Stop Conversation
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
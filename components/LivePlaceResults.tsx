@@ -0,0 +1,64 @@
+import React from 'react';
+import { LivePlaceSearch } from '../services/geminiService';
+import { getPlaceDistance } from '../services/geo';
+import { citationsForPlace } from '../services/citations';
+import PlaceCard from './PlaceCard';
+
+interface LivePlaceResultsProps {
+  searches: LivePlaceSearch[]; // Oldest first
+}
+
+const STATUS_LABELS: Record<LivePlaceSearch['status'], string> = {
+  searching: 'Searching...',
+  done: '',
+  failed: 'The search failed.',
+  cancelled: 'Stopped.',
+};
+
+/**
+ * The places found by voice in a Live conversation, newest search first, shown next to
+ * the transcript while the model reads out the top results.
+ */
+const LivePlaceResults: React.FC<LivePlaceResultsProps> = ({ searches }) => {
+  if (searches.length === 0) {
+    return null;
+  }
+  return (
+    <div className="lg:w-96 shrink-0 overflow-y-auto p-4 border border-gray-200 rounded-lg bg-white shadow-inner space-y-6">
+      {[...searches].reverse().map((search) => {
+        const { location, result } = search;
+        return (
+          <section key={search.id} aria-busy={search.status === 'searching'}>
+            <h3 className="text-lg font-semibold text-gray-800 break-words">"{search.query}"</h3>
+            <p className="text-sm text-gray-500 mb-3">
+              {search.near || location?.label ? `Near ${search.near || location?.label}` : 'Near you'}
+              {result && ` · ${result.places.length} ${result.places.length === 1 ? 'place' : 'places'}`}
+              {result?.cachedAt && ' · cached'}
+            </p>
+            {search.status !== 'done' && (
+              <p className={`text-sm ${search.status === 'failed' ? 'text-red-600' : 'text-gray-500'} ${search.status === 'searching' ? 'animate-pulse' : ''}`}>
+                {search.error || STATUS_LABELS[search.status]}
+              </p>
+            )}
+            {result && result.places.length === 0 && (
+              <p className="text-sm text-gray-700 whitespace-pre-wrap">{result.text}</p>
+            )}
+            <div className="space-y-3">
+              {result?.places.map((place) => (
+                <PlaceCard
+                  key={place.id}
+                  place={place}
+                  distance={location && place.location ? getPlaceDistance(location, place.location) : null}
+                  citations={citationsForPlace(place.name, result.citations)}
+                  sources={result.sources}
+                />
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LivePlaceResults;
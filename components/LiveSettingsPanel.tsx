@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { LivePersona, LiveSettings } from '../types';
+import { LIVE_LANGUAGES, LIVE_VOICES, DEFAULT_LIVE_SETTINGS, MAX_LIVE_INSTRUCTION_LENGTH } from '../services/liveSettings';
+import { createLivePersona, deleteLivePersona, saveLiveSettings, updateLivePersona } from '../services/liveSettingsStore';
+
+interface LiveSettingsPanelProps {
+  settings: LiveSettings;
+  personas: LivePersona[];
+  instruction: string; // The instruction being edited; a session started now uses it
+  onInstructionChange: (instruction: string) => void;
+  sessionActive?: boolean; // Changes then only apply to the next session
+}
+
+/**
+ * Voice, persona and language of Live Chat, saved in IndexedDB. A persona preset fills
+ * in the instruction, which can be edited, saved back to a preset of the user's own or
+ * saved as a new one.
+ */
+const LiveSettingsPanel: React.FC<LiveSettingsPanelProps> = ({ settings, personas, instruction, onInstructionChange, sessionActive = false }) => {
+  const [newPersonaName, setNewPersonaName] = useState<string | null>(null); // Non-null while naming a new preset
+  const [error, setError] = useState<string | null>(null);
+
+  const persona = personas.find((p) => p.id === settings.personaId) || null;
+  const edited = !persona || instruction.trim() !== persona.instruction;
+
+  const run = (action: Promise<unknown>) => {
+    setError(null);
+    action.catch((err) => {
+      console.error('Live settings update failed:', err);
+      setError((err as Error).message || 'Could not save the Live settings.');
+    });
+  };
+
+  const save = (changes: Partial<LiveSettings>) => run(saveLiveSettings({ ...settings, ...changes }));
+
+  const handleSelectPersona = (personaId: string) => {
+    const selected = personas.find((p) => p.id === personaId);
+    if (selected) {
+      onInstructionChange(selected.instruction);
+      save({ personaId: selected.id, instruction: selected.instruction });
+    }
+  };
+
+  const handleInstructionBlur = () => {
+    if (!instruction.trim()) {
+      onInstructionChange(settings.instruction); // An empty instruction is not saved
+    } else if (instruction !== settings.instruction) {
+      save({ instruction });
+    }
+  };
+
+  const handleCreatePersona = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newPersonaName?.trim();
+    if (!name) return;
+    run((async () => {
+      const created = await createLivePersona(name, instruction);
+      await saveLiveSettings({ ...settings, personaId: created.id, instruction: created.instruction });
+      setNewPersonaName(null);
+    })());
+  };
+
+  const handleDeletePersona = () => {
+    if (!persona || persona.builtIn || !window.confirm(`Delete the "${persona.name}" persona?`)) return;
+    run((async () => {
+      await deleteLivePersona(persona.id);
+      await saveLiveSettings({ ...settings, personaId: DEFAULT_LIVE_SETTINGS.personaId, instruction: DEFAULT_LIVE_SETTINGS.instruction });
+    })());
+  };
+
+  return (
+    <div className="p-4 mb-6 bg-white border border-gray-200 rounded-lg shadow-sm space-y-4">
+      {sessionActive && (
+        <p className="text-sm text-amber-700">Changes apply to the next conversation.</p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="liveVoice" className="block text-sm font-medium text-gray-700 mb-1">Voice</label>
+          <select
+            id="liveVoice"
+            value={settings.voiceName}
+            onChange={(e) => save({ voiceName: e.target.value })}
+            className="w-full p-2 rounded-md border border-gray-300 text-gray-900"
+          >
+            {LIVE_VOICES.map((voice) => (
+              <option key={voice.name} value={voice.name}>{voice.name} ({voice.style})</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="liveLanguage" className="block text-sm font-medium text-gray-700 mb-1">Spoken language</label>
+          <select
+            id="liveLanguage"
+            value={settings.languageCode}
+            onChange={(e) => save({ languageCode: e.target.value })}
+            className="w-full p-2 rounded-md border border-gray-300 text-gray-900"
+          >
+            {LIVE_LANGUAGES.map((language) => (
+              <option key={language.code} value={language.code}>{language.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="livePersona" className="block text-sm font-medium text-gray-700 mb-1">Persona</label>
+        <select
+          id="livePersona"
+          value={persona?.id || ''}
+          onChange={(e) => handleSelectPersona(e.target.value)}
+          className="w-full p-2 rounded-md border border-gray-300 text-gray-900"
+        >
+          {!persona && <option value="">Custom</option>}
+          {personas.map((p) => (
+            <option key={p.id} value={p.id}>{p.builtIn ? p.name : `${p.name} (yours)`}</option>
+          ))}
+        </select>
+        <textarea
+          aria-label="Persona instruction"
+          value={instruction}
+          onChange={(e) => onInstructionChange(e.target.value)}
+          onBlur={handleInstructionBlur}
+          maxLength={MAX_LIVE_INSTRUCTION_LENGTH}
+          rows={3}
+          className="w-full mt-2 p-2 text-sm rounded-md border border-gray-300 text-gray-900"
+        />
+        <div className="flex flex-wrap items-center gap-3 mt-1 text-sm">
+          {edited && persona && (
+            <>
+              <span className="text-gray-500">Edited from "{persona.name}"</span>
+              <button type="button" onClick={() => handleSelectPersona(persona.id)} className="text-indigo-600 hover:text-indigo-800">
+                Reset
+              </button>
+              {!persona.builtIn && (
+                <button
+                  type="button"
+                  onClick={() => run(updateLivePersona(persona.id, instruction).then(() => saveLiveSettings({ ...settings, instruction: instruction.trim() })))}
+                  className="text-indigo-600 hover:text-indigo-800"
+                >
+                  Update preset
+                </button>
+              )}
+            </>
+          )}
+          {newPersonaName === null ? (
+            <button type="button" onClick={() => setNewPersonaName('')} className="text-indigo-600 hover:text-indigo-800">
+              Save as new preset
+            </button>
+          ) : (
+            <form onSubmit={handleCreatePersona} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newPersonaName}
+                onChange={(e) => setNewPersonaName(e.target.value)}
+                placeholder="Preset name"
+                autoFocus
+                className="p-1 text-sm rounded-md border border-gray-300 text-gray-900"
+              />
+              <button type="submit" disabled={!newPersonaName.trim() || !instruction.trim()} className="text-indigo-600 hover:text-indigo-800 disabled:opacity-50">
+                Save
+              </button>
+              <button type="button" onClick={() => setNewPersonaName(null)} className="text-gray-500 hover:text-gray-700">
+                Cancel
+              </button>
+            </form>
+          )}
+          {persona && !persona.builtIn && (
+            <button type="button" onClick={handleDeletePersona} className="text-red-600 hover:text-red-800">
+              Delete preset
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default LiveSettingsPanel;
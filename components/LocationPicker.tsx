@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { resolveLocation } from '../services/geminiService';
+import { parseCoordinates } from '../services/geo';
+import { isCancellation } from '../services/errors';
+import { useAbortController } from '../hooks/useAbortController';
+import { UserLocation } from '../types';
+import ErrorNotice from './ErrorNotice';
+
+type EntryMode = 'coordinates' | 'address' | 'map';
+
+interface LocationPickerProps {
+  onLocationChosen: (location: UserLocation) => void;
+  pickingOnMap: boolean;
+  onPickOnMapChange: (picking: boolean) => void;
+}
+
+/**
+ * Lets the user set the search origin by hand when device geolocation is denied or wrong:
+ * typed coordinates, a free-text place resolved by the model, or a point picked on the map.
+ */
+const LocationPicker: React.FC<LocationPickerProps> = ({ onLocationChosen, pickingOnMap, onPickOnMapChange }) => {
+  const [mode, setMode] = useState<EntryMode>('address');
+  const [coordinatesInput, setCoordinatesInput] = useState<string>('');
+  const [addressInput, setAddressInput] = useState<string>('');
+  const [resolving, setResolving] = useState<boolean>(false);
+  const [error, setError] = useState<Error | string | null>(null);
+  const request = useAbortController();
+
+  const switchMode = (next: EntryMode) => {
+    setMode(next);
+    setError(null);
+    onPickOnMapChange(next === 'map');
+  };
+
+  const handleCoordinatesSubmit = () => {
+    const point = parseCoordinates(coordinatesInput);
+    if (!point) {
+      setError("Enter coordinates as 'latitude, longitude', e.g. '48.8584, 2.2945'.");
+      return;
+    }
+    setError(null);
+    onLocationChosen({ ...point, source: 'manual' });
+  };
+
+  const handleAddressSubmit = async () => {
+    if (!addressInput.trim()) {
+      setError('Enter a place name or address.');
+      return;
+    }
+    const signal = request.start();
+    setResolving(true);
+    setError(null);
+    try {
+      const location = await resolveLocation(addressInput.trim(), signal);
+      onLocationChosen(location);
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error('Location resolution error:', err);
+      setError(err as Error);
+    } finally {
+      if (!signal.aborted) {
+        setResolving(false);
+      }
+    }
+  };
+
+  const tabClass = (tab: EntryMode) =>
+    `flex-1 px-2 py-1 text-xs font-medium rounded-md transition-colors duration-200 ${
+      mode === tab ? 'bg-white text-indigo-800' : 'text-indigo-100 hover:bg-indigo-600'
+    }`;
+
+  return (
+    <div className="mt-3 p-3 bg-indigo-900/40 rounded-md">
+      <p className="text-sm font-medium mb-2">Set location manually</p>
+      <div className="flex gap-1 mb-3 bg-indigo-800 p-1 rounded-md">
+        <button type="button" className={tabClass('address')} onClick={() => switchMode('address')}>Place</button>
+        <button type="button" className={tabClass('coordinates')} onClick={() => switchMode('coordinates')}>Coordinates</button>
+        <button type="button" className={tabClass('map')} onClick={() => switchMode('map')}>Pick on map</button>
+      </div>
+
+      {mode === 'address' && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={addressInput}
+            onChange={(e) => setAddressInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddressSubmit(); } }}
+            placeholder="e.g., 'Shibuya Station, Tokyo'"
+            className="flex-grow min-w-0 p-2 rounded-md bg-indigo-50 text-gray-900 text-sm placeholder-gray-500"
+            disabled={resolving}
+          />
+          <button
+            type="button"
+            onClick={handleAddressSubmit}
+            className="px-3 py-2 bg-green-500 hover:bg-green-600 rounded-md text-sm font-medium disabled:opacity-50"
+            disabled={resolving || !addressInput.trim()}
+          >
+            {resolving ? 'Finding...' : 'Set'}
+          </button>
+        </div>
+      )}
+
+      {mode === 'coordinates' && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={coordinatesInput}
+            onChange={(e) => setCoordinatesInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleCoordinatesSubmit(); } }}
+            placeholder="latitude, longitude"
+            className="flex-grow min-w-0 p-2 rounded-md bg-indigo-50 text-gray-900 text-sm placeholder-gray-500"
+          />
+          <button
+            type="button"
+            onClick={handleCoordinatesSubmit}
+            className="px-3 py-2 bg-green-500 hover:bg-green-600 rounded-md text-sm font-medium disabled:opacity-50"
+            disabled={!coordinatesInput.trim()}
+          >
+            Set
+          </button>
+        </div>
+      )}
+
+      {mode === 'map' && (
+        <p className="text-sm text-indigo-100">
+          {pickingOnMap ? 'Click a point on the map to use it as your location.' : 'Location picked. Choose this tab again to pick another point.'}
+        </p>
+      )}
+
+      {typeof error === 'string' && <p className="text-sm text-red-300 mt-2">{error}</p>}
+      {error instanceof Error && (
+        <ErrorNotice
+          error={error}
+          onRetry={handleAddressSubmit}
+          // Most often the place was not found; coordinates always work
+          hints={{ unknown: 'Try a fuller address, or enter coordinates instead.' }}
+          actions={{ unknown: { label: 'Enter coordinates', onClick: () => switchMode('coordinates') } }}
+          className="mt-2"
+        />
+      )}
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -1,32 +1,96 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { getPlacesRecommendations } from '../services/geminiService';
-import { UserLocation, PriceRange, CuisineType, Amenity } from '../types';
-
-interface ParsedRecommendation {
-  originalIndex: number;
-  name: string;
-  rating: number | null;
-  fullText: string;
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { streamPlacesRecommendations, RecommendationResult } from '../services/geminiService';
+import { GROUNDING_TOOL_LABELS } from '../services/groundingRouter';
+import { SortOrder, SORT_ORDER_LABELS, sortPlaces } from '../services/placeRanking';
+import { getPlaceDistance } from '../services/geo';
+import { citationsForPlace } from '../services/citations';
+import { toExportRecord } from '../services/placeExport';
+import { LocalGuideLink, isSameSearch } from '../services/router';
+import { isCancellation } from '../services/errors';
+import {
+  UserLocation,
+  PriceRange,
+  CuisineType,
+  Amenity,
+  Place,
+  PlaceFilters,
+  GroundingMode,
+  GroundingSource,
+  Citation,
+  LocalGuideSearch,
+  SearchHistoryEntry,
+} from '../types';
+import PlaceCard from './PlaceCard';
+import Markdown from './Markdown';
+import SourceList from './SourceList';
+import ExportMenu from './ExportMenu';
+import ItineraryPlanner from './ItineraryPlanner';
+import PlaceComparison from './PlaceComparison';
+import PlacesMap from './PlacesMap';
+import LocationPicker from './LocationPicker';
+import ErrorNotice from './ErrorNotice';
+import SavedPlacesPanel from './SavedPlacesPanel';
+import SearchHistoryPanel from './SearchHistoryPanel';
+import { addHistoryEntry } from '../services/searchHistoryStore';
+import { useSavedPlaces } from '../hooks/useSavedPlaces';
+import { useAbortController } from '../hooks/useAbortController';
+import { getOrCreateDefaultList, savePlace, removeSavedPlace, savedPlaceId } from '../services/savedPlacesStore';
+
+const MAX_COMPARED_PLACES = 4;
+
+const hasFilters = (filters: PlaceFilters): boolean =>
+  Boolean(filters.priceRange || filters.cuisineType.trim() || filters.amenities.length > 0);
+
+const formatCacheAge = (ageMs: number): string => {
+  const minutes = Math.floor(ageMs / 60_000);
+  return minutes < 1 ? 'Cached just now' : `Cached ${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+};
+
+interface MapGroundingAppProps {
+  link?: LocalGuideLink | null; // A search from the URL, run when it changes
+  onLinkChange?: (link: LocalGuideLink, replace: boolean) => void; // Reports searches and sort changes for the URL
 }
 
-const MapGroundingApp: React.FC = () => {
+const MapGroundingApp: React.FC<MapGroundingAppProps> = ({ link = null, onLinkChange }) => {
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [recommendationsText, setRecommendationsText] = useState<string>('');
-  const [groundingUrls, setGroundingUrls] = useState<string[]>([]);
+  const [resultsQuery, setResultsQuery] = useState<string>(''); // The query the shown results answer
+  const [sources, setSources] = useState<GroundingSource[]>([]);
+  const [citations, setCitations] = useState<Citation[]>([]);
   const [userLocation, setUserLocation] = useState<UserLocation | null>(null);
   const [locationPermissionGranted, setLocationPermissionGranted] = useState<boolean>(false);
+  const [pickingOnMap, setPickingOnMap] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
 
   // New state for advanced filters
   const [priceRange, setPriceRange] = useState<PriceRange>('');
   const [cuisineType, setCuisineType] = useState<CuisineType>('');
   const [selectedAmenities, setSelectedAmenities] = useState<Amenity[]>([]);
+  const [groundingMode, setGroundingMode] = useState<GroundingMode>('auto');
+  const [groundingInfo, setGroundingInfo] = useState<Pick<RecommendationResult, 'groundingMode' | 'groundingTool' | 'cachedAt'> | null>(null);
+  const [now, setNow] = useState<number>(Date.now()); // Keeps the "cached N minutes ago" label current
+  const lastSearchRef = useRef<LocalGuideSearch | null>(null);
+  // A new search, or leaving the tab, cancels the one still streaming
+  const searchRequest = useAbortController();
 
   // New state for sorting
-  const [sortOrder, setSortOrder] = useState<'default' | 'highest-rated' | 'lowest-rated'>('default');
-  const [parsedRecommendations, setParsedRecommendations] = useState<ParsedRecommendation[]>([]);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('default');
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [selectedPlaceId, setSelectedPlaceId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]); // In the order they were picked
+  const [showComparison, setShowComparison] = useState<boolean>(false);
+
+  // Saved places
+  const { lists: savedLists, savedPlaces } = useSavedPlaces();
+  const [mainView, setMainView] = useState<'results' | 'itinerary' | 'saved' | 'history'>('results');
+  const [saveListId, setSaveListId] = useState<string>('');
+
+  // Shared links: the last search the URL was synced with, and a linked search that is
+  // waiting for a location before it can run
+  const linkedSearchRef = useRef<LocalGuideLink | null>(null);
+  const [pendingLink, setPendingLink] = useState<LocalGuideLink | null>(null);
 
   const availableCuisines = [
     'Italian', 'Mexican', 'Indian', 'Chinese', 'Japanese', 'American', 'French',
@@ -35,6 +99,12 @@ const MapGroundingApp: React.FC = () => {
   const availableAmenities: Amenity[] = [
     'Wi-Fi', 'Outdoor Seating', 'Pet-Friendly', 'Parking', 'Wheelchair Accessible'
   ];
+  const groundingModes: { value: GroundingMode; label: string }[] = [
+    { value: 'auto', label: 'Auto' },
+    { value: 'maps', label: 'Maps' },
+    { value: 'search', label: 'Search' },
+    { value: 'maps+search', label: 'Both' },
+  ];
 
   const requestGeolocation = useCallback(() => {
     if (navigator.geolocation) {
@@ -43,12 +113,14 @@ const MapGroundingApp: React.FC = () => {
           setUserLocation({
             latitude: position.coords.latitude,
             longitude: position.coords.longitude,
+            source: 'device',
           });
           setLocationPermissionGranted(true);
+          setPickingOnMap(false);
         },
         (geoError) => {
           console.error("Geolocation error:", geoError);
-          setError(`Geolocation failed: ${geoError.message}. Please enable location services.`);
+          setError(`Geolocation failed: ${geoError.message}. Enable location services or set your location manually.`);
           setLocationPermissionGranted(false);
         }
       );
@@ -59,54 +131,58 @@ const MapGroundingApp: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    requestGeolocation();
+    // A link with a fixed location must not be overridden by the device location
+    if (!link?.location) {
+      requestGeolocation();
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Run once on mount to get location
 
+  // Opening a link (or going Back to one) restores its form and runs the search
   useEffect(() => {
-    // When recommendationsText changes, re-parse and update parsedRecommendations
-    if (recommendationsText) {
-      const items = recommendationsText.split(/\n\s*\d+\.\s+\*\*(.*?)\*\*(.*?)(\d+\.?\d*)\s*(?:stars|score|\/10)?/gs).filter(Boolean); // Split and filter empty strings
-      const newParsed: ParsedRecommendation[] = [];
-      let currentItemIndex = 0;
-
-      // Regex to capture the name and rating (handles "X.X stars", "X/10", "Score: Y")
-      const itemRegex = /^\s*\d+\.\s+\*\*(.*?)\*\*(?:[^\n]*?(\d+\.?\d*)\s*(?:stars|out of 5|score|\/10))?/i;
-
-      recommendationsText.split('\n').forEach((line, lineIndex) => {
-        const match = line.match(itemRegex);
-        if (match) {
-          const name = match[1]?.trim() || `Recommendation ${newParsed.length + 1}`;
-          let rating: number | null = null;
-
-          // Attempt to parse rating from the matched group or the full line
-          if (match[2]) {
-            rating = parseFloat(match[2]);
-          } else {
-            // Fallback for more general rating patterns like "4.5/5"
-            const generalRatingMatch = line.match(/(\d+\.?\d*)\s*(?:stars|out of 5|score|\/10)/i);
-            if (generalRatingMatch && generalRatingMatch[1]) {
-              rating = parseFloat(generalRatingMatch[1]);
-            }
-          }
-
-          newParsed.push({
-            originalIndex: currentItemIndex++,
-            name,
-            rating: rating && rating > 0 && rating <= 10 ? rating : null, // Basic validation for rating range
-            fullText: line.trim(),
-          });
-        } else if (newParsed.length > 0) {
-          // If it's a continuation of the previous item, append to its fullText
-          newParsed[newParsed.length - 1].fullText += '\n' + line.trim();
-        }
-      });
-      setParsedRecommendations(newParsed);
-    } else {
-      setParsedRecommendations([]);
+    if (!link) return;
+    const current = linkedSearchRef.current;
+    if (current && isSameSearch(current, link)) {
+      setSortOrder(link.sortOrder);
+      return;
+    }
+    linkedSearchRef.current = link;
+    setSearchQuery(link.query);
+    setPriceRange(link.filters.priceRange);
+    setCuisineType(link.filters.cuisineType);
+    setSelectedAmenities(link.filters.amenities);
+    setGroundingMode(link.groundingMode);
+    setSortOrder(link.sortOrder);
+    if (link.location) {
+      setUserLocation(link.location);
     }
-  }, [recommendationsText]);
+    setPendingLink(link);
+  }, [link]);
 
+  useEffect(() => {
+    if (!pendingLink || loading) return;
+    const location = pendingLink.location || userLocation;
+    if (!location) return; // Waits for geolocation or a manually set location
+    setPendingLink(null);
+    runSearch({
+      query: pendingLink.query,
+      filters: pendingLink.filters,
+      groundingMode: pendingLink.groundingMode,
+      location,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingLink, userLocation, loading]);
+
+  const publishLink = (next: LocalGuideLink, replace: boolean) => {
+    linkedSearchRef.current = next;
+    onLinkChange?.(next, replace);
+  };
+
+  const handleManualLocation = (location: UserLocation) => {
+    setUserLocation(location);
+    setPickingOnMap(false);
+    setError(null);
+  };
 
   const handleAmenityChange = (amenity: Amenity) => {
     setSelectedAmenities((prev) =>
@@ -116,6 +192,87 @@ const MapGroundingApp: React.FC = () => {
     );
   };
 
+  useEffect(() => {
+    if (!groundingInfo?.cachedAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, [groundingInfo]);
+
+  const runSearch = async (search: LocalGuideSearch, forceRefresh: boolean = false) => {
+    lastSearchRef.current = search;
+    // Only hand-set locations go in the link; others search near whoever opens it
+    const searchLink: LocalGuideLink = {
+      query: search.query,
+      filters: search.filters,
+      groundingMode: search.groundingMode,
+      sortOrder,
+      location: search.location.source === 'manual' ? search.location : null,
+    };
+    const current = linkedSearchRef.current;
+    if (!current || !isSameSearch(current, searchLink)) {
+      publishLink(searchLink, false);
+    }
+
+    const signal = searchRequest.start();
+    setLoading(true);
+    setError(null);
+    setRecommendationsText('');
+    setResultsQuery(search.query);
+    setSources([]);
+    setCitations([]);
+    setPlaces([]); // Clear structured places too
+    setSelectedPlaceId(null);
+    setCompareIds([]);
+    setShowComparison(false);
+    setGroundingInfo(null);
+    setMainView('results');
+
+    try {
+      const result = await streamPlacesRecommendations(
+        search.query,
+        search.location,
+        search.filters,
+        search.groundingMode,
+        (partial) => {
+          setRecommendationsText(partial.text);
+          setPlaces(partial.places);
+        },
+        forceRefresh,
+        signal,
+      );
+      // A newer search, or unmounting, may have replaced this one meanwhile
+      if (signal.aborted) return;
+      setRecommendationsText(result.text);
+      setPlaces(result.places);
+      setSources(result.sources);
+      setCitations(result.citations);
+      setGroundingInfo({ groundingMode: result.groundingMode, groundingTool: result.groundingTool, cachedAt: result.cachedAt });
+      setNow(Date.now());
+      recordSearch({ ...search, status: 'success', groundingTool: result.groundingTool, places: result.places });
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error("Recommendation API error:", err);
+      setError(err as Error);
+      recordSearch({ ...search, status: 'error', error: (err as Error).message, places: [] });
+    } finally {
+      // A cancelled search leaves the state to whoever cancelled it
+      if (!signal.aborted) {
+        setLoading(false);
+      }
+    }
+  };
+
+  // Keeps the places and text that have streamed in so far
+  const handleStopSearch = () => {
+    searchRequest.abort();
+    setLoading(false);
+  };
+
+  // History is best-effort: a storage failure must not hide the search results
+  const recordSearch = (entry: Omit<SearchHistoryEntry, 'id' | 'createdAt'>) => {
+    addHistoryEntry(entry).catch((err) => console.error("Failed to record search history:", err));
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!searchQuery.trim()) {
@@ -123,153 +280,207 @@ const MapGroundingApp: React.FC = () => {
       return;
     }
     if (!userLocation) {
-      setError("User location is not available. Please grant geolocation permission.");
+      setError("Location is not available. Grant geolocation permission or set your location manually.");
       return;
     }
 
-    setLoading(true);
-    setError(null);
-    setRecommendationsText('');
-    setGroundingUrls([]);
-    setParsedRecommendations([]); // Clear parsed recommendations too
+    await runSearch({
+      query: searchQuery.trim(),
+      filters: { priceRange, cuisineType, amenities: selectedAmenities },
+      groundingMode,
+      location: userLocation,
+    });
+  };
 
-    const fullPrompt = `Based on my current location, find the top 10 most recommended and commented ${searchQuery}. For each, provide its name, a brief summary of why it's popular, and its general type (e.g., 'Italian Restaurant', 'Boutique Hotel'). Present this as a numbered list.`;
+  // Restores the form to a past search and runs it again from the same location
+  const handleRerun = async (entry: SearchHistoryEntry) => {
+    setSearchQuery(entry.query);
+    setPriceRange(entry.filters.priceRange);
+    setCuisineType(entry.filters.cuisineType);
+    setSelectedAmenities(entry.filters.amenities);
+    setGroundingMode(entry.groundingMode);
+    setUserLocation(entry.location);
+    await runSearch(entry);
+  };
+
+  const handleSortChange = (order: SortOrder) => {
+    setSortOrder(order);
+    if (linkedSearchRef.current) {
+      publishLink({ ...linkedSearchRef.current, sortOrder: order }, true);
+    }
+  };
 
+  // The list the save buttons target: the one picked in "Save to", else the first list
+  const targetListId = savedLists.some((list) => list.id === saveListId) ? saveListId : savedLists[0]?.id;
+
+  const handleToggleSave = async (place: Place) => {
     try {
-      const result = await getPlacesRecommendations(
-        fullPrompt,
-        userLocation,
-        priceRange,
-        cuisineType,
-        selectedAmenities
-      );
-      setRecommendationsText(result.text);
-      setGroundingUrls(result.groundingUrls);
+      const listId = targetListId || (await getOrCreateDefaultList()).id;
+      const id = savedPlaceId(listId, place.id);
+      if (savedPlaces.some((saved) => saved.id === id)) {
+        await removeSavedPlace(id);
+      } else {
+        await savePlace(place, listId);
+      }
     } catch (err) {
-      console.error("Recommendation API error:", err);
-      setError((err as Error).message || "An unexpected error occurred.");
-    } finally {
-      setLoading(false);
+      console.error("Save place error:", err);
+      setError((err as Error).message || "Could not save the place.");
     }
   };
 
-  const renderRecommendations = () => {
-    if (!recommendationsText && !loading) {
-      return null;
+  const handleToggleCompare = (placeId: string) => {
+    setCompareIds((ids) => {
+      if (ids.includes(placeId)) return ids.filter((id) => id !== placeId);
+      return ids.length < MAX_COMPARED_PLACES ? [...ids, placeId] : ids;
+    });
+  };
+
+  const comparedPlaces = compareIds
+    .map((id) => places.find((place) => place.id === id))
+    .filter((place): place is Place => !!place);
+
+  // Repeats the failed search; a failure is never cached, so the cache needs no skipping
+  const handleRetry = async () => {
+    if (lastSearchRef.current) {
+      await runSearch(lastSearchRef.current);
     }
+  };
 
-    let recommendationsToRender = [...parsedRecommendations];
-
-    if (sortOrder === 'highest-rated') {
-      recommendationsToRender.sort((a, b) => {
-        if (a.rating === null && b.rating === null) return 0;
-        if (a.rating === null) return 1; // Nulls last
-        if (b.rating === null) return -1; // Nulls last
-        return b.rating - a.rating; // Highest first
-      });
-    } else if (sortOrder === 'lowest-rated') {
-      recommendationsToRender.sort((a, b) => {
-        if (a.rating === null && b.rating === null) return 0;
-        if (a.rating === null) return 1; // Nulls last
-        if (b.rating === null) return -1; // Nulls last
-        return a.rating - b.rating; // Lowest first
-      });
-    } else {
-      // Default order (original parsing order)
-      recommendationsToRender.sort((a, b) => a.originalIndex - b.originalIndex);
+  // Recovery when nothing matched: the same search with the form's filters cleared
+  const handleSearchWithoutFilters = async () => {
+    if (!lastSearchRef.current) return;
+    setPriceRange('');
+    setCuisineType('');
+    setSelectedAmenities([]);
+    await runSearch({ ...lastSearchRef.current, filters: { priceRange: '', cuisineType: '', amenities: [] } });
+  };
+
+  // Runs the shown search again, skipping the cache
+  const handleRefresh = async () => {
+    if (lastSearchRef.current) {
+      await runSearch(lastSearchRef.current, true);
     }
+  };
 
-    // Basic markdown to HTML conversion for strong, emphasis, lists
-    const renderMarkdownContent = (markdown: string) => {
-      const lines = markdown.split('\n');
-      // FIX: Removed explicit JSX.Element[] type annotation; TypeScript can infer this.
-      // This often resolves 'Cannot find namespace JSX' errors when tsconfig setup is implicit or tricky.
-      const elements = [];
-      let inList = false;
-      let isOrdered = false;
-
-      lines.forEach((line, idx) => {
-        const trimmedLine = line.trim();
-        let content = trimmedLine
-          .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-          .replace(/\*(.*?)\*/g, '<em>$1</em>');
-
-        if (trimmedLine.match(/^\d+\.\s/)) { // Ordered list item
-          if (!inList || !isOrdered) {
-            if (inList) elements.push(isOrdered ? <ol key={`list-end-${idx}`} /> : <ul key={`list-end-${idx}`} />);
-            elements.push(<ol key={`list-start-${idx}`} className="list-decimal list-inside space-y-1 text-gray-700" />);
-            inList = true;
-            isOrdered = true;
-          }
-          elements.push(<li key={idx} dangerouslySetInnerHTML={{ __html: content.substring(content.indexOf('.') + 1).trim() }} />);
-        } else if (trimmedLine.match(/^- /)) { // Unordered list item
-          if (!inList || isOrdered) {
-            if (inList) elements.push(isOrdered ? <ol key={`list-end-${idx}`} /> : <ul key={`list-end-${idx}`} />);
-            elements.push(<ul key={`list-start-${idx}`} className="list-disc list-inside space-y-1 text-gray-700" />);
-            inList = true;
-            isOrdered = false;
-          }
-          elements.push(<li key={idx} dangerouslySetInnerHTML={{ __html: content.substring(content.indexOf('-') + 1).trim() }} />);
-        } else {
-          if (inList) { // End current list
-            elements.push(isOrdered ? <ol key={`list-end-${idx}`} /> : <ul key={`list-end-${idx}`} />);
-            inList = false;
-          }
-          if (trimmedLine) {
-            elements.push(<p key={idx} className="mb-2" dangerouslySetInnerHTML={{ __html: content }} />);
-          }
-        }
-      });
-      if (inList) { // Close any open list at the end
-        elements.push(isOrdered ? <ol key={`list-final-end`} /> : <ul key={`list-final-end`} />);
-      }
-      return <>{elements}</>;
-    };
+  const renderRecommendations = () => {
+    // While the first chunks are on their way the spinner is shown instead
+    if (!recommendationsText && places.length === 0 && (loading || !groundingInfo)) {
+      return null;
+    }
 
+    const placesToRender = sortPlaces(places, sortOrder, userLocation);
 
     return (
       <div className="mt-6 p-4 bg-blue-50 rounded-lg shadow-inner">
-        <h3 className="text-xl font-semibold text-blue-800 mb-4">Our Recommendations:</h3>
-        {recommendationsToRender.length > 0 ? (
-          <div className="space-y-4">
-            {recommendationsToRender.map((rec, index) => (
-              <div key={rec.originalIndex || index} className="p-3 bg-white border border-blue-200 rounded-md shadow-sm">
-                {renderMarkdownContent(rec.fullText)}
-                {rec.rating !== null && (
-                  <p className="text-sm text-gray-600 mt-2">
-                    <span className="font-semibold">Rating:</span> {rec.rating} {rec.rating <= 5 ? 'stars' : ''}
-                  </p>
-                )}
-              </div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className="text-xl font-semibold text-blue-800">Our Recommendations:</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            {savedLists.length > 1 && (
+              <label className="text-xs text-gray-600">
+                Save to{' '}
+                <select
+                  value={targetListId}
+                  onChange={(e) => setSaveListId(e.target.value)}
+                  className="p-1 rounded-md border border-blue-200 text-gray-900"
+                >
+                  {savedLists.map((list) => (
+                    <option key={list.id} value={list.id}>{list.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {placesToRender.length > 1 && (
+              <button
+                type="button"
+                onClick={() => setShowComparison(true)}
+                disabled={loading || comparedPlaces.length < 2}
+                className="px-3 py-1 text-sm rounded-md bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={comparedPlaces.length < 2 ? `Tick "Compare" on 2 to ${MAX_COMPARED_PLACES} places` : undefined}
+              >
+                Compare ({comparedPlaces.length})
+              </button>
+            )}
+            {placesToRender.length > 0 && (
+              <ExportMenu
+                name={resultsQuery || 'Local Guide results'}
+                records={() => placesToRender.map((place) => toExportRecord(
+                  place,
+                  citationsForPlace(place.name, citations)
+                    .flatMap((citation) => citation.sourceNumbers)
+                    .map((number) => sources[number - 1]?.uri)
+                    .filter((uri): uri is string => !!uri),
+                ))}
+                disabled={loading}
+                className="border-blue-200 text-gray-900"
+              />
+            )}
+            {groundingInfo && (
+              <span className="px-2 py-1 rounded-full bg-blue-100 text-blue-800 text-xs font-medium">
+                Grounded with {GROUNDING_TOOL_LABELS[groundingInfo.groundingTool]}{groundingInfo.groundingMode === 'auto' ? ' (auto)' : ''}
+              </span>
+            )}
+            {groundingInfo?.cachedAt && !loading && (
+              <span className="flex items-center gap-1 px-2 py-1 rounded-full bg-gray-100 text-gray-700 text-xs font-medium" role="status">
+                {formatCacheAge(now - groundingInfo.cachedAt)}
+                <button type="button" onClick={handleRefresh} className="text-indigo-700 hover:underline" title="Search again without the cache">
+                  Refresh
+                </button>
+              </span>
+            )}
+          </div>
+        </div>
+        {showComparison && comparedPlaces.length >= 2 && (
+          <div className="mb-4">
+            <PlaceComparison
+              places={comparedPlaces}
+              userLocation={userLocation}
+              onRemove={handleToggleCompare}
+              onClose={() => setShowComparison(false)}
+            />
+          </div>
+        )}
+        {placesToRender.length > 0 ? (
+          <div className="space-y-4" aria-busy={loading}>
+            {placesToRender.map((place) => (
+              <PlaceCard
+                key={place.id}
+                place={place}
+                distance={userLocation && place.location ? getPlaceDistance(userLocation, place.location) : null}
+                isSelected={place.id === selectedPlaceId}
+                onSelect={setSelectedPlaceId}
+                isSaved={!!targetListId && savedPlaces.some((saved) => saved.id === savedPlaceId(targetListId, place.id))}
+                savedInLists={savedLists
+                  .filter((list) => savedPlaces.some((saved) => saved.id === savedPlaceId(list.id, place.id)))
+                  .map((list) => list.name)}
+                onToggleSave={handleToggleSave}
+                isCompared={compareIds.includes(place.id)}
+                compareDisabled={!compareIds.includes(place.id) && compareIds.length >= MAX_COMPARED_PLACES}
+                onToggleCompare={loading ? undefined : handleToggleCompare}
+                citations={citationsForPlace(place.name, citations)}
+                sources={sources}
+              />
             ))}
+            {loading && (
+              <p className="text-sm text-indigo-700 animate-pulse">Finding more places...</p>
+            )}
+            {!loading && recommendationsText && citations.length > 0 && (
+              <details className="p-3 bg-white border border-blue-200 rounded-md shadow-sm">
+                <summary className="cursor-pointer text-sm font-medium text-blue-800">Full answer with sources</summary>
+                <Markdown text={recommendationsText} citations={citations} sources={sources} className="mt-2 text-gray-700" />
+              </details>
+            )}
+          </div>
+        ) : recommendationsText ? (
+          <div className="p-3 bg-white border border-blue-200 rounded-md shadow-sm">
+            <Markdown text={recommendationsText} streaming={loading} citations={citations} sources={sources} className="text-gray-700" />
           </div>
         ) : (
-          <p className="text-gray-500">No recommendations found or could be parsed for sorting.</p>
+          <p className="text-gray-500">No recommendations found.</p>
         )}
       </div>
     );
   };
 
-  const renderGroundingUrls = () => {
-    if (groundingUrls.length === 0) {
-      return null;
-    }
-    return (
-      <div className="mt-6 p-4 bg-purple-50 rounded-lg shadow-inner">
-        <h3 className="text-xl font-semibold text-purple-800 mb-4">Sources:</h3>
-        <ul className="list-disc list-inside space-y-2 text-gray-700">
-          {groundingUrls.map((url, index) => (
-            <li key={index}>
-              <a href={url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:text-indigo-800 underline break-all">
-                {url}
-              </a>
-            </li>
-          ))}
-        </ul>
-      </div>
-    );
-  };
-
   return (
     <div className="flex flex-col md:flex-row w-full h-full bg-white shadow-xl rounded-lg">
       {/* Sidebar for location and input */}
@@ -280,25 +491,38 @@ const MapGroundingApp: React.FC = () => {
 
           <div className="mb-6">
             <h2 className="text-xl font-semibold mb-2">Your Location:</h2>
-            {locationPermissionGranted ? (
-              userLocation ? (
+            {userLocation ? (
+              <div>
+                <span
+                  className={`inline-block px-2 py-0.5 mb-1 rounded-full text-xs font-semibold uppercase tracking-wide ${
+                    userLocation.source === 'manual' ? 'bg-green-200 text-green-900' : 'bg-blue-200 text-blue-900'
+                  }`}
+                >
+                  {userLocation.source === 'manual' ? 'Manual' : 'Device'}
+                </span>
+                {userLocation.label && <p className="text-green-200">{userLocation.label}</p>}
                 <p className="text-green-300">
                   Latitude: {userLocation.latitude.toFixed(4)}, Longitude: {userLocation.longitude.toFixed(4)}
                 </p>
-              ) : (
-                <p className="text-yellow-300">Fetching location...</p>
-              )
-            ) : (
-              <div className="text-red-300">
-                <p className="mb-2">Geolocation permission denied or not supported.</p>
-                <button
-                  onClick={requestGeolocation}
-                  className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-md text-white font-medium focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
-                >
-                  Enable Location
-                </button>
               </div>
+            ) : locationPermissionGranted ? (
+              <p className="text-yellow-300">Fetching location...</p>
+            ) : (
+              <p className="text-red-300 mb-2">Geolocation permission denied or not supported.</p>
             )}
+            {(!locationPermissionGranted || userLocation?.source === 'manual') && (
+              <button
+                onClick={requestGeolocation}
+                className="mt-2 px-4 py-2 bg-red-600 hover:bg-red-700 rounded-md text-white text-sm font-medium focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+              >
+                {locationPermissionGranted ? 'Use Device Location' : 'Enable Location'}
+              </button>
+            )}
+            <LocationPicker
+              onLocationChosen={handleManualLocation}
+              pickingOnMap={pickingOnMap}
+              onPickOnMapChange={setPickingOnMap}
+            />
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-4">
@@ -311,7 +535,7 @@ const MapGroundingApp: React.FC = () => {
                 onChange={(e) => setSearchQuery(e.target.value)}
                 placeholder="e.g., 'Italian restaurants', 'boutique hotels', 'parks'"
                 className="w-full p-3 rounded-md border border-indigo-500 focus:ring-2 focus:ring-indigo-300 focus:border-transparent bg-indigo-50 text-gray-900 placeholder-gray-500"
-                disabled={!locationPermissionGranted || !userLocation || loading}
+                disabled={loading}
               />
             </div>
 
@@ -319,6 +543,33 @@ const MapGroundingApp: React.FC = () => {
             <div className="mt-6 space-y-4">
               <h3 className="text-xl font-semibold mb-2">Advanced Filters</h3>
 
+              {/* Grounding Mode */}
+              <div>
+                <span className="block text-sm font-medium mb-1">Grounding</span>
+                <div className="grid grid-cols-4 gap-1 bg-indigo-800 p-1 rounded-md" role="radiogroup" aria-label="Grounding mode">
+                  {groundingModes.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      role="radio"
+                      aria-checked={groundingMode === value}
+                      onClick={() => setGroundingMode(value)}
+                      className={`px-2 py-1 text-xs font-medium rounded-md transition-colors duration-200 ${
+                        groundingMode === value ? 'bg-white text-indigo-800' : 'text-indigo-100 hover:bg-indigo-600'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-indigo-200 mt-1">
+                  {groundingMode === 'auto' && 'Picks Maps, Search or both based on your query.'}
+                  {groundingMode === 'maps' && 'Places from Google Maps near your location.'}
+                  {groundingMode === 'search' && 'General information from Google Search.'}
+                  {groundingMode === 'maps+search' && 'Google Maps places enriched with Google Search results.'}
+                </p>
+              </div>
+
               {/* Price Range */}
               <div>
                 <label htmlFor="priceRange" className="block text-sm font-medium mb-1">Price Range</label>
@@ -370,19 +621,26 @@ const MapGroundingApp: React.FC = () => {
                 </div>
               </div>
 
-              {/* Sort by Rating */}
+              {/* Sort by Rating or Distance */}
               <div className="mt-4">
                 <label htmlFor="sortOrder" className="block text-sm font-medium mb-1">Sort by</label>
                 <select
                   id="sortOrder"
                   value={sortOrder}
-                  onChange={(e) => setSortOrder(e.target.value as typeof sortOrder)}
+                  onChange={(e) => handleSortChange(e.target.value as SortOrder)}
                   className="w-full p-2 rounded-md border border-indigo-500 bg-indigo-50 text-gray-900"
-                  disabled={parsedRecommendations.length === 0}
+                  disabled={places.length === 0}
                 >
-                  <option value="default">Default Order</option>
-                  <option value="highest-rated">Highest Rated</option>
-                  <option value="lowest-rated">Lowest Rated</option>
+                  {(Object.keys(SORT_ORDER_LABELS) as SortOrder[]).map((order) => (
+                    <option
+                      key={order}
+                      value={order}
+                      // Distance-based orders need at least one place with coordinates
+                      disabled={(order === 'nearest' || order === 'best-nearby') && !places.some((place) => place.location)}
+                    >
+                      {SORT_ORDER_LABELS[order]}
+                    </option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -391,7 +649,7 @@ const MapGroundingApp: React.FC = () => {
             <button
               type="submit"
               className="w-full flex items-center justify-center px-5 py-3 border border-transparent text-base font-medium rounded-md text-white bg-green-500 hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-green-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
-              disabled={!locationPermissionGranted || !userLocation || !searchQuery.trim() || loading}
+              disabled={!userLocation || !searchQuery.trim() || loading}
             >
               {loading ? (
                 <>
@@ -405,6 +663,15 @@ const MapGroundingApp: React.FC = () => {
                 'Get Recommendations'
               )}
             </button>
+            {loading && (
+              <button
+                type="button"
+                onClick={handleStopSearch}
+                className="w-full px-5 py-2 border border-indigo-300 text-sm font-medium rounded-md text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+              >
+                Stop
+              </button>
+            )}
           </form>
         </div>
         <p className="text-sm text-indigo-300 mt-6 text-center">
@@ -414,32 +681,111 @@ const MapGroundingApp: React.FC = () => {
 
       {/* Main content area for results */}
       <main className="md:w-2/3 p-6 flex-grow overflow-y-auto">
-        {error && (
-          <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg" role="alert">
-            <span className="font-medium">Error:</span> {error}
-          </div>
-        )}
+        <div className="flex gap-2 mb-4" role="tablist">
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mainView === 'results'}
+            onClick={() => setMainView('results')}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+              mainView === 'results' ? 'bg-indigo-600 text-white shadow-md' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            Results
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mainView === 'itinerary'}
+            onClick={() => setMainView('itinerary')}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+              mainView === 'itinerary' ? 'bg-emerald-600 text-white shadow-md' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            Plan a Day
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mainView === 'saved'}
+            onClick={() => setMainView('saved')}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+              mainView === 'saved' ? 'bg-amber-500 text-white shadow-md' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            Saved Places ({savedPlaces.length})
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mainView === 'history'}
+            onClick={() => setMainView('history')}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+              mainView === 'history' ? 'bg-teal-600 text-white shadow-md' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            History
+          </button>
+        </div>
 
-        {loading && (
-          <div className="flex flex-col items-center justify-center h-48">
-            <svg className="animate-spin h-10 w-10 text-indigo-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-            </svg>
-            <p className="mt-3 text-lg text-indigo-700">Finding the best spots for you...</p>
-            <p className="text-gray-500 text-sm">This might take a moment as Gemini explores the map data.</p>
-          </div>
-        )}
+        {/* Kept mounted so a plan survives switching tabs */}
+        <div className={mainView === 'itinerary' ? '' : 'hidden'}>
+          <ItineraryPlanner places={places} origin={userLocation} />
+        </div>
 
-        {!loading && !recommendationsText && !error && (
-          <div className="text-center py-10 text-gray-500">
-            <p className="text-lg">Enter a query and click 'Get Recommendations' to begin!</p>
-            <p className="text-sm mt-2">Example: "pizza places", "cafes with Wi-Fi", "family-friendly hotels"</p>
-          </div>
-        )}
+        {mainView === 'itinerary' ? null : mainView === 'saved' ? (
+          <SavedPlacesPanel />
+        ) : mainView === 'history' ? (
+          <SearchHistoryPanel onRerun={handleRerun} disabled={loading} />
+        ) : (
+          <>
+            {error && (
+              <ErrorNotice
+                error={error}
+                onRetry={handleRetry}
+                hints={{
+                  safety: 'Rephrase your search and try again.',
+                  'empty-response': 'Nothing was found. Try a broader search, or fewer filters.',
+                }}
+                actions={lastSearchRef.current && hasFilters(lastSearchRef.current.filters) ? {
+                  'empty-response': { label: 'Search without filters', onClick: handleSearchWithoutFilters },
+                } : undefined}
+              />
+            )}
+
+            {loading && !recommendationsText && places.length === 0 && (
+              <div className="flex flex-col items-center justify-center h-48">
+                <svg className="animate-spin h-10 w-10 text-indigo-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                <p className="mt-3 text-lg text-indigo-700">Finding the best spots for you...</p>
+                <p className="text-gray-500 text-sm">This might take a moment as Gemini explores the map data.</p>
+              </div>
+            )}
+
+            {!loading && !recommendationsText && !error && (
+              <div className="text-center py-10 text-gray-500">
+                <p className="text-lg">Enter a query and click 'Get Recommendations' to begin!</p>
+                <p className="text-sm mt-2">Example: "pizza places", "cafes with Wi-Fi", "family-friendly hotels"</p>
+              </div>
+            )}
 
-        {renderRecommendations()}
-        {renderGroundingUrls()}
+            {(userLocation || pickingOnMap) && (
+              <PlacesMap
+                userLocation={userLocation}
+                places={places}
+                selectedPlaceId={selectedPlaceId}
+                onSelectPlace={setSelectedPlaceId}
+                pickMode={pickingOnMap}
+                onPickLocation={(point) => handleManualLocation({ ...point, source: 'manual' })}
+              />
+            )}
+
+            {renderRecommendations()}
+            <SourceList sources={sources} />
+          </>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { Block, Inline, parseMarkdown, withCitationMarkers } from '../services/markdown';
+import { closePartialMarkdown } from '../services/partialMarkdown';
+import { Citation, GroundingSource } from '../types';
+import CitationMarker from './CitationMarker';
+
+interface MarkdownProps {
+  text: string;
+  streaming?: boolean; // Close markers left open by a response that is still arriving
+  className?: string;
+  citations?: Citation[]; // Markers placed at offsets into `text`
+  sources?: GroundingSource[]; // What the citation numbers refer to
+}
+
+const HEADING_CLASSES = [
+  'text-2xl font-bold',
+  'text-xl font-bold',
+  'text-lg font-semibold',
+  'text-base font-semibold',
+  'text-sm font-semibold',
+  'text-sm font-semibold uppercase tracking-wide',
+];
+
+const renderInline = (nodes: Inline[], sources: GroundingSource[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, sources)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children, sources)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children, sources)}</del>;
+      case 'code':
+        return <code key={index} className="px-1 py-0.5 rounded bg-black/10 font-mono text-[0.9em]">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="underline hover:opacity-80 break-words">
+            {renderInline(node.children, sources)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+      case 'citation':
+        return <CitationMarker key={index} numbers={node.sources} sources={sources} />;
+      default:
+        return null;
+    }
+  });
+
+const renderBlocks = (blocks: Block[], sources: GroundingSource[]): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return <Tag key={index} className={`${HEADING_CLASSES[block.level - 1]} mt-4 first:mt-0`}>{renderInline(block.children, sources)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children, sources)}</p>;
+      case 'code':
+        return (
+          <pre key={index} className="p-3 rounded-md bg-gray-800 text-gray-100 text-sm overflow-x-auto">
+            <code className="font-mono" data-language={block.language || undefined}>{block.code}</code>
+          </pre>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} className="space-y-1">{renderBlocks(item, sources)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-6 space-y-1">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc pl-6 space-y-1">{items}</ul>
+        );
+      }
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="pl-3 border-l-4 border-gray-300 opacity-90 space-y-2">
+            {renderBlocks(block.children, sources)}
+          </blockquote>
+        );
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className="min-w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th key={column} className="px-2 py-1 border border-gray-300 font-semibold" style={{ textAlign: block.align[column] || 'left' }}>
+                      {renderInline(cell, sources)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td key={column} className="px-2 py-1 border border-gray-300 align-top" style={{ textAlign: block.align[column] || undefined }}>
+                        {renderInline(cell, sources)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={index} className="border-gray-300" />;
+      default:
+        return null;
+    }
+  });
+
+/**
+ * Renders model output. The text is parsed into a syntax tree and rendered as React
+ * elements only (never `dangerouslySetInnerHTML`), so HTML in the output shows up as
+ * text and only http(s) and mailto links are kept.
+ */
+const Markdown: React.FC<MarkdownProps> = ({ text, streaming = false, className = '', citations = [], sources = [] }) => {
+  const blocks = useMemo(() => {
+    if (streaming) return parseMarkdown(closePartialMarkdown(text));
+    return parseMarkdown(citations.length > 0 ? withCitationMarkers(text, citations) : text);
+  }, [text, streaming, citations]);
+  return <div className={`space-y-2 break-words ${className}`}>{renderBlocks(blocks, sources)}</div>;
+};
+
+export default Markdown;
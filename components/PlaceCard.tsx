@@ -0,0 +1,165 @@
+import React, { useEffect, useRef } from 'react';
+import { Citation, GroundingSource, Place } from '../types';
+import { PlaceDistance, compassDirection, formatDistance, formatDuration } from '../services/geo';
+import { getPlaceReviews } from '../services/placeParser';
+import CitationMarker from './CitationMarker';
+
+interface PlaceCardProps {
+  place: Place;
+  distance?: PlaceDistance | null; // From the search origin, when the place has coordinates
+  isSelected?: boolean;
+  onSelect?: (placeId: string) => void;
+  isSaved?: boolean; // Saved in the list that the save button targets
+  savedInLists?: string[]; // Names of every saved list that contains this place
+  onToggleSave?: (place: Place) => void;
+  isCompared?: boolean;
+  compareDisabled?: boolean; // The comparison is full and this place is not in it
+  onToggleCompare?: (placeId: string) => void;
+  citations?: Citation[]; // Citations of sentences about this place
+  sources?: GroundingSource[];
+}
+
+const PlaceCard: React.FC<PlaceCardProps> = ({
+  place,
+  distance = null,
+  isSelected = false,
+  onSelect,
+  isSaved = false,
+  savedInLists = [],
+  onToggleSave,
+  isCompared = false,
+  compareDisabled = false,
+  onToggleCompare,
+  citations = [],
+  sources = [],
+}) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const reviews = getPlaceReviews(place);
+  const sourceNumbers = Array.from(new Set(citations.flatMap((citation) => citation.sourceNumbers))).sort((a, b) => a - b);
+
+  useEffect(() => {
+    if (isSelected) {
+      cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [isSelected]);
+
+  return (
+    <div
+      ref={cardRef}
+      onClick={() => onSelect?.(place.id)}
+      className={`p-3 bg-white border rounded-md shadow-sm transition-colors ${onSelect ? 'cursor-pointer' : ''} ${
+        isSelected ? 'border-red-400 ring-2 ring-red-300' : 'border-blue-200 hover:border-blue-400'
+      }`}
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h4 className="text-lg font-semibold text-gray-800">
+            <span className="text-blue-600 mr-2">{place.rank}.</span>
+            {place.name}
+          </h4>
+          {place.category && (
+            <p className="text-sm text-gray-500">{place.category}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {onToggleCompare && (
+            <label
+              onClick={(e) => e.stopPropagation()}
+              className={`flex items-center gap-1 text-sm text-gray-600 ${compareDisabled ? 'opacity-50' : 'cursor-pointer'}`}
+              title={compareDisabled ? 'Up to 4 places can be compared' : 'Add to the comparison'}
+            >
+              <input
+                type="checkbox"
+                checked={isCompared}
+                disabled={compareDisabled}
+                onChange={() => onToggleCompare(place.id)}
+                className="rounded text-teal-600 focus:ring-teal-400"
+              />
+              Compare
+            </label>
+          )}
+          {place.rating !== null && (
+            <span
+              className="shrink-0 px-2 py-1 rounded-full bg-yellow-100 text-yellow-800 text-sm font-semibold"
+              title={place.reviewCount !== null ? `${place.reviewCount} reviews` : undefined}
+            >
+              ★ {place.rating}{place.ratingScale ? ` / ${place.ratingScale}` : ''}
+            </span>
+          )}
+          {onToggleSave && (
+            <button
+              type="button"
+              onClick={(e) => { e.stopPropagation(); onToggleSave(place); }}
+              className={`px-2 py-1 rounded-md text-sm font-medium border transition-colors duration-200 ${
+                isSaved ? 'bg-amber-500 border-amber-500 text-white hover:bg-amber-600' : 'border-amber-400 text-amber-700 hover:bg-amber-50'
+              }`}
+              title={savedInLists.length > 0 ? `Saved in ${savedInLists.join(', ')}` : 'Save this place'}
+              aria-pressed={isSaved}
+            >
+              {isSaved ? '★ Saved' : '☆ Save'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {(place.priceLevel || place.cuisine) && (
+        <p className="text-sm text-gray-500">
+          {[place.priceLevel, place.cuisine].filter(Boolean).join(' · ')}
+        </p>
+      )}
+
+      {place.summary && (
+        <p className="text-gray-700 mt-2">
+          {place.summary}
+          {sourceNumbers.length > 0 && <CitationMarker numbers={sourceNumbers} sources={sources} />}
+        </p>
+      )}
+
+      {reviews.length > 0 && (
+        <ul className="mt-2 space-y-1" aria-label="Review snippets">
+          {reviews.map((review, index) => (
+            <li key={index} className="pl-3 border-l-4 border-yellow-300 text-sm text-gray-600">
+              <span className="italic">“{review.text}”</span>
+              {review.link && (
+                <a href={review.link} onClick={(e) => e.stopPropagation()} target="_blank" rel="noopener noreferrer" className="ml-2 text-indigo-600 hover:text-indigo-800 underline whitespace-nowrap">
+                  Read review
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {distance && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-sm text-gray-700">
+          <span title={`Straight-line distance, bearing ${Math.round(distance.bearing)}°`}>
+            <span className="font-semibold">{formatDistance(distance.meters)}</span> {compassDirection(distance.bearing)}
+          </span>
+          <span title="Estimated walking time">🚶 {formatDuration(distance.travelMinutes.walking)}</span>
+          <span title="Estimated cycling time">🚲 {formatDuration(distance.travelMinutes.cycling)}</span>
+          <span title="Estimated driving time">🚗 {formatDuration(distance.travelMinutes.driving)}</span>
+        </div>
+      )}
+
+      <div className="text-sm text-gray-600 mt-2 space-y-1">
+        {place.reviewCount !== null && (
+          <p>
+            <span className="font-semibold">Reviews:</span> {place.reviewCount.toLocaleString()}
+          </p>
+        )}
+        {place.address && (
+          <p>
+            <span className="font-semibold">Address:</span> {place.address}
+          </p>
+        )}
+        {place.mapsUri && (
+          <a href={place.mapsUri} onClick={(e) => e.stopPropagation()} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:text-indigo-800 underline">
+            Open in Google Maps
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlaceCard;
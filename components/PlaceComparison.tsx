@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { Place, UserLocation } from '../types';
+import { comparePlaces, ComparisonVerdict } from '../services/geminiService';
+import { isCancellation } from '../services/errors';
+import { useAbortController } from '../hooks/useAbortController';
+import { getPlaceDistance, formatDistance, formatDuration } from '../services/geo';
+import { AMENITIES, getPlaceReviews } from '../services/placeParser';
+import Markdown from './Markdown';
+import SourceList from './SourceList';
+import ErrorNotice from './ErrorNotice';
+
+interface PlaceComparisonProps {
+  places: Place[]; // Two to four places, in the order they were picked
+  userLocation: UserLocation | null;
+  onRemove: (placeId: string) => void;
+  onClose: () => void;
+}
+
+const MISSING = <span className="text-gray-400">—</span>;
+
+/**
+ * Side-by-side table of the shortlisted places, with a Maps-grounded verdict on which
+ * one suits a purpose the user describes.
+ */
+const PlaceComparison: React.FC<PlaceComparisonProps> = ({ places, userLocation, onRemove, onClose }) => {
+  const [purpose, setPurpose] = useState<string>('');
+  const [verdict, setVerdict] = useState<ComparisonVerdict | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const request = useAbortController();
+
+  // A verdict is only valid for the places it compared, so one still coming is cancelled
+  const placeKey = places.map((place) => place.id).join(',');
+  useEffect(() => {
+    request.abort();
+    setVerdict(null);
+    setLoading(false);
+  }, [placeKey, request.abort]);
+
+  const handleCompare = (e: React.FormEvent) => {
+    e.preventDefault();
+    runComparison();
+  };
+
+  const runComparison = async () => {
+    if (!purpose.trim() || !userLocation) return;
+    const signal = request.start();
+    setLoading(true);
+    setError(null);
+    try {
+      setVerdict(await comparePlaces(places, purpose.trim(), userLocation, signal));
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error('Comparison error:', err);
+      setError(err as Error);
+    } finally {
+      if (!signal.aborted) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const rows: { label: string; render: (place: Place) => React.ReactNode }[] = [
+    {
+      label: 'Rating',
+      render: (place) => place.rating !== null ? (
+        <>
+          ★ {place.rating}{place.ratingScale ? ` / ${place.ratingScale}` : ''}
+          {place.reviewCount !== null && <span className="block text-xs text-gray-500">{place.reviewCount.toLocaleString()} reviews</span>}
+        </>
+      ) : MISSING,
+    },
+    { label: 'Price level', render: (place) => place.priceLevel || MISSING },
+    { label: 'Cuisine', render: (place) => place.cuisine || MISSING },
+    ...AMENITIES.map((amenity) => ({
+      label: amenity,
+      render: (place: Place) => place.amenities.includes(amenity)
+        ? <span className="text-green-700" aria-label="Yes">✓</span>
+        : MISSING,
+    })),
+    {
+      label: 'Distance',
+      render: (place) => {
+        if (!userLocation || !place.location) return MISSING;
+        const distance = getPlaceDistance(userLocation, place.location);
+        return (
+          <>
+            {formatDistance(distance.meters)}
+            <span className="block text-xs text-gray-500">🚶 {formatDuration(distance.travelMinutes.walking)}</span>
+          </>
+        );
+      },
+    },
+    {
+      label: 'Review highlights',
+      render: (place) => {
+        const reviews = getPlaceReviews(place).slice(0, 2);
+        return reviews.length > 0 ? (
+          <ul className="space-y-1">
+            {reviews.map((review, index) => (
+              <li key={index} className="text-xs italic text-gray-600">
+                {review.link ? (
+                  <a href={review.link} target="_blank" rel="noopener noreferrer" className="hover:underline">“{review.text}”</a>
+                ) : (
+                  <>“{review.text}”</>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : MISSING;
+      },
+    },
+  ];
+
+  return (
+    <div className="p-4 bg-teal-50 rounded-lg shadow-inner">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="text-xl font-semibold text-teal-800">Compare Places</h3>
+        <button type="button" onClick={onClose} className="text-sm text-teal-700 hover:underline">
+          Close
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left border-collapse bg-white rounded-md">
+          <thead>
+            <tr>
+              <th scope="col" className="p-2 border-b border-teal-200"><span className="sr-only">Detail</span></th>
+              {places.map((place) => (
+                <th key={place.id} scope="col" className="p-2 border-b border-teal-200 align-top">
+                  <span className="block font-semibold text-gray-800">{place.name}</span>
+                  {place.category && <span className="block text-xs font-normal text-gray-500">{place.category}</span>}
+                  <button type="button" onClick={() => onRemove(place.id)} className="text-xs font-normal text-red-600 hover:underline">
+                    Remove
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className="border-b border-teal-100 last:border-b-0">
+                <th scope="row" className="p-2 font-medium text-gray-600 whitespace-nowrap align-top">{row.label}</th>
+                {places.map((place) => (
+                  <td key={place.id} className="p-2 text-gray-800 align-top">{row.render(place)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">Amenities show only what Google Maps reported; a dash may mean unknown.</p>
+
+      <form onSubmit={handleCompare} className="flex flex-wrap items-center gap-2 mt-4">
+        <label htmlFor="comparisonPurpose" className="text-sm font-medium text-gray-700">Which should I pick for</label>
+        <input
+          id="comparisonPurpose"
+          type="text"
+          value={purpose}
+          onChange={(e) => setPurpose(e.target.value)}
+          placeholder="a quiet work session, a date night..."
+          className="flex-grow min-w-[12rem] p-2 text-sm rounded-md border border-gray-300 focus:ring-2 focus:ring-teal-300 focus:border-transparent text-gray-900"
+        />
+        <button
+          type="submit"
+          disabled={loading || !purpose.trim() || !userLocation}
+          className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-md shadow disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Comparing...' : 'Ask Gemini'}
+        </button>
+      </form>
+
+      {error && (
+        <ErrorNotice
+          error={error}
+          onRetry={runComparison}
+          hints={{ safety: 'Describe what you are choosing for in other words.' }}
+          className="mt-3"
+        />
+      )}
+
+      {verdict && !loading && (
+        <div className="mt-3">
+          <div className="p-3 bg-white border border-teal-200 rounded-md shadow-sm">
+            <Markdown text={verdict.text} citations={verdict.citations} sources={verdict.sources} className="text-gray-700" />
+          </div>
+          <SourceList sources={verdict.sources} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaceComparison;
@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { LatLng, Place, UserLocation } from '../types';
+import { TILE_SIZE, MIN_ZOOM, MAX_ZOOM, project, unproject, fitZoom, boundsCenter } from '../services/geo';
+import { getTileSource, getTileUrl } from '../services/mapTiles';
+
+interface PlacesMapProps {
+  userLocation: UserLocation | null;
+  places: Place[];
+  selectedPlaceId: string | null;
+  onSelectPlace: (placeId: string) => void;
+  pickMode?: boolean; // When true, clicking the map reports the clicked coordinate
+  onPickLocation?: (point: LatLng) => void;
+  height?: number;
+}
+
+const DRAG_THRESHOLD_PX = 4;
+const WORLD_VIEW: LatLng = { latitude: 20, longitude: 0 };
+
+const PlacesMap: React.FC<PlacesMapProps> = ({
+  userLocation,
+  places,
+  selectedPlaceId,
+  onSelectPlace,
+  pickMode = false,
+  onPickLocation,
+  height = 320,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; startCenter: LatLng; moved: boolean } | null>(null);
+  const [width, setWidth] = useState<number>(0);
+  const [center, setCenter] = useState<LatLng | null>(null);
+  const [zoom, setZoom] = useState<number>(14);
+  const [failedTiles, setFailedTiles] = useState<Set<string>>(new Set());
+  const tileSource = useMemo(() => getTileSource(), []);
+
+  const mappedPlaces = useMemo(() => places.filter((place) => place.location !== null), [places]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    setWidth(element.clientWidth);
+    const observer = new ResizeObserver((entries) => {
+      setWidth(entries[0].contentRect.width);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit the view to the user and every pin whenever the result set or origin changes
+  useEffect(() => {
+    const points: LatLng[] = mappedPlaces.map((place) => place.location!);
+    if (userLocation) {
+      points.push(userLocation);
+    }
+    if (width === 0) return;
+    if (points.length === 0) {
+      // Nothing to show yet (e.g. picking a location without geolocation): start from a world view
+      setCenter(WORLD_VIEW);
+      setZoom(MIN_ZOOM);
+      return;
+    }
+    setCenter(boundsCenter(points));
+    setZoom(fitZoom(points, width, height));
+  }, [mappedPlaces, userLocation, width, height]);
+
+  // Keep the selected pin in view when it is chosen from the list
+  useEffect(() => {
+    const selected = mappedPlaces.find((place) => place.id === selectedPlaceId);
+    if (!selected || !center || width === 0) return;
+    const centerPx = project(center, zoom);
+    const pinPx = project(selected.location!, zoom);
+    if (Math.abs(pinPx.x - centerPx.x) > width / 2 - 20 || Math.abs(pinPx.y - centerPx.y) > height / 2 - 20) {
+      setCenter(selected.location);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedPlaceId]);
+
+  const changeZoom = (delta: number) => {
+    setZoom((prev) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev + delta)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!center || (e.target as HTMLElement).closest('button')) return;
+    dragRef.current = { startX: e.clientX, startY: e.clientY, startCenter: center, moved: false };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+    drag.moved = true;
+    const startPx = project(drag.startCenter, zoom);
+    setCenter(unproject({ x: startPx.x - dx, y: startPx.y - dy }, zoom));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !pickMode || !onPickLocation || !center) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const centerPx = project(center, zoom);
+    onPickLocation(unproject({
+      x: centerPx.x + (e.clientX - rect.left - width / 2),
+      y: centerPx.y + (e.clientY - rect.top - height / 2),
+    }, zoom));
+  };
+
+  const handlePointerCancel = () => {
+    dragRef.current = null;
+  };
+
+  const renderTiles = () => {
+    if (!center || !tileSource.urlTemplate) return null;
+    const centerPx = project(center, zoom);
+    const left = centerPx.x - width / 2;
+    const top = centerPx.y - height / 2;
+    const tileCount = Math.pow(2, zoom);
+    const tiles = [];
+    for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+      for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + height) / TILE_SIZE); ty++) {
+        if (ty < 0 || ty >= tileCount) continue;
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        const url = getTileUrl(tileSource, wrappedX, ty, zoom);
+        if (!url || failedTiles.has(url)) continue;
+        tiles.push(
+          <img
+            key={`${zoom}-${tx}-${ty}`}
+            src={url}
+            alt=""
+            draggable={false}
+            onError={() => setFailedTiles((prev) => new Set(prev).add(url))}
+            className="absolute select-none pointer-events-none"
+            style={{ left: tx * TILE_SIZE - left, top: ty * TILE_SIZE - top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        );
+      }
+    }
+    return tiles;
+  };
+
+  const toScreen = (point: LatLng) => {
+    const centerPx = project(center!, zoom);
+    const px = project(point, zoom);
+    return { left: px.x - centerPx.x + width / 2, top: px.y - centerPx.y + height / 2 };
+  };
+
+  return (
+    <div className="mb-6">
+      <div
+        ref={containerRef}
+        className={`relative w-full overflow-hidden rounded-lg border bg-gray-100 touch-none ${
+          pickMode ? 'border-green-500 ring-2 ring-green-300 cursor-crosshair' : 'border-blue-200 cursor-grab'
+        }`}
+        style={{
+          height,
+          // Plain grid so the map stays readable offline or when tiles fail to load
+          backgroundImage: 'linear-gradient(#e5e7eb 1px, transparent 1px), linear-gradient(90deg, #e5e7eb 1px, transparent 1px)',
+          backgroundSize: '32px 32px',
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+      >
+        {center && width > 0 && (
+          <>
+            {renderTiles()}
+
+            {userLocation && (
+              <div
+                className={`absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 ${userLocation.source === 'manual' ? 'bg-green-600' : 'bg-blue-600'} border-white shadow pointer-events-none`}
+                style={toScreen(userLocation)}
+                title={userLocation.source === 'manual' ? 'Search location (manual)' : 'Your location'}
+              />
+            )}
+
+            {mappedPlaces.map((place) => {
+              const isSelected = place.id === selectedPlaceId;
+              return (
+                <button
+                  key={place.id}
+                  type="button"
+                  onClick={() => onSelectPlace(place.id)}
+                  className={`absolute -ml-4 -mt-8 w-8 h-8 rounded-full rounded-br-none rotate-45 flex items-center justify-center shadow-md border-2 border-white transition-colors ${
+                    isSelected ? 'bg-red-600 z-20' : 'bg-indigo-600 hover:bg-indigo-700 z-10'
+                  }`}
+                  style={toScreen(place.location!)}
+                  title={place.name}
+                  aria-label={`${place.rank}. ${place.name}`}
+                  aria-pressed={isSelected}
+                >
+                  <span className="-rotate-45 text-xs font-bold text-white">{place.rank}</span>
+                </button>
+              );
+            })}
+          </>
+        )}
+
+        <div className="absolute top-2 right-2 z-30 flex flex-col bg-white rounded-md shadow">
+          <button type="button" onClick={() => changeZoom(1)} className="px-2 py-1 text-gray-700 hover:bg-gray-100 rounded-t-md" aria-label="Zoom in">+</button>
+          <button type="button" onClick={() => changeZoom(-1)} className="px-2 py-1 text-gray-700 hover:bg-gray-100 rounded-b-md border-t" aria-label="Zoom out">−</button>
+        </div>
+
+        {tileSource.attribution && (
+          <div className="absolute bottom-0 right-0 z-30 px-1 text-[10px] text-gray-600 bg-white/80">
+            {tileSource.attribution}
+          </div>
+        )}
+      </div>
+      {pickMode && (
+        <p className="text-xs text-green-700 mt-1">Click anywhere on the map to set your search location.</p>
+      )}
+      {places.length > mappedPlaces.length && (
+        <p className="text-xs text-gray-500 mt-1">
+          {places.length - mappedPlaces.length} of {places.length} places have no coordinates and are not shown on the map.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PlacesMap;
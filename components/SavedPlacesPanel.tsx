@@ -0,0 +1,318 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { SavedPlace } from '../types';
+import { useSavedPlaces } from '../hooks/useSavedPlaces';
+import {
+  createList,
+  renameList,
+  deleteList,
+  updateSavedPlace,
+  moveSavedPlace,
+  removeSavedPlace,
+  exportSavedPlaces,
+  importSavedPlaces,
+  importPlacesAsList,
+} from '../services/savedPlacesStore';
+import { downloadFile, readFileAsText } from '../services/download';
+import { importPlaces, toExportRecord } from '../services/placeExport';
+import ExportMenu from './ExportMenu';
+
+const ALL_LISTS = 'all';
+
+const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map((tag) => tag.trim()).filter(Boolean)));
+
+interface SavedPlaceItemProps {
+  saved: SavedPlace;
+  listOptions: { id: string; name: string }[];
+  onTagClick: (tag: string) => void;
+  onError: (message: string) => void;
+}
+
+const SavedPlaceItem: React.FC<SavedPlaceItemProps> = ({ saved, listOptions, onTagClick, onError }) => {
+  const [note, setNote] = useState<string>(saved.note);
+  const [tagsInput, setTagsInput] = useState<string>(saved.tags.join(', '));
+  const { place } = saved;
+
+  const run = (action: Promise<void>) => {
+    action.catch((err) => {
+      console.error('Saved place update failed:', err);
+      onError((err as Error).message || 'Could not update the saved place.');
+    });
+  };
+
+  return (
+    <li className="p-3 bg-white border border-amber-200 rounded-md shadow-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h4 className="font-semibold text-gray-800">{place.name}</h4>
+          <p className="text-sm text-gray-500">
+            {[place.category, place.rating !== null ? `★ ${place.rating}${place.ratingScale ? ` / ${place.ratingScale}` : ''}` : '']
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+          {place.address && <p className="text-sm text-gray-600">{place.address}</p>}
+        </div>
+        <button
+          type="button"
+          onClick={() => run(removeSavedPlace(saved.id))}
+          className="text-sm text-red-600 hover:text-red-800"
+        >
+          Remove
+        </button>
+      </div>
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={() => note !== saved.note && run(updateSavedPlace(saved.id, { note }))}
+        rows={2}
+        placeholder="Add a note..."
+        className="w-full mt-2 p-2 text-sm rounded-md border border-gray-300 focus:ring-2 focus:ring-amber-300 focus:border-transparent text-gray-900 resize-none"
+      />
+
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        {saved.tags.map((tag) => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => onTagClick(tag)}
+            className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs hover:bg-amber-200"
+          >
+            #{tag}
+          </button>
+        ))}
+        <input
+          type="text"
+          value={tagsInput}
+          onChange={(e) => setTagsInput(e.target.value)}
+          onBlur={() => run(updateSavedPlace(saved.id, { tags: parseTags(tagsInput) }))}
+          placeholder="tags, comma separated"
+          className="flex-grow min-w-[8rem] p-1 text-xs rounded-md border border-gray-300 text-gray-900"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-sm">
+        <label className="flex items-center gap-2 text-gray-600">
+          List:
+          <select
+            value={saved.listId}
+            onChange={(e) => run(moveSavedPlace(saved.id, e.target.value))}
+            className="p-1 rounded-md border border-gray-300 text-gray-900"
+          >
+            {listOptions.map((list) => (
+              <option key={list.id} value={list.id}>{list.name}</option>
+            ))}
+          </select>
+        </label>
+        {place.mapsUri && (
+          <a href={place.mapsUri} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:text-indigo-800 underline">
+            Open in Google Maps
+          </a>
+        )}
+      </div>
+    </li>
+  );
+};
+
+/**
+ * Saved Places view: curated lists of places kept across sessions in IndexedDB,
+ * with notes, tags, JSON backup and restore, and GeoJSON/KML/GPX/CSV export and
+ * GeoJSON/CSV import of single lists.
+ */
+const SavedPlacesPanel: React.FC = () => {
+  const { lists, savedPlaces, error: loadError } = useSavedPlaces();
+  const [activeListId, setActiveListId] = useState<string>(ALL_LISTS);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [newListName, setNewListName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const placesFileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeList = lists.find((list) => list.id === activeListId) || null;
+
+  const visiblePlaces = useMemo(
+    () =>
+      savedPlaces.filter(
+        (saved) =>
+          (activeListId === ALL_LISTS || saved.listId === activeListId) &&
+          (!tagFilter || saved.tags.includes(tagFilter)),
+      ),
+    [savedPlaces, activeListId, tagFilter],
+  );
+
+  const handleError = (message: string) => {
+    setStatus(null);
+    setError(message);
+  };
+
+  const handleCreateList = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+    try {
+      const list = await createList(newListName);
+      setNewListName('');
+      setActiveListId(list.id);
+    } catch (err) {
+      handleError((err as Error).message || 'Could not create the list.');
+    }
+  };
+
+  const handleRenameList = async () => {
+    if (!activeList) return;
+    const name = window.prompt('Rename list', activeList.name);
+    if (name === null) return;
+    try {
+      await renameList(activeList.id, name);
+    } catch (err) {
+      handleError((err as Error).message || 'Could not rename the list.');
+    }
+  };
+
+  const handleDeleteList = async () => {
+    if (!activeList) return;
+    const count = savedPlaces.filter((saved) => saved.listId === activeList.id).length;
+    if (!window.confirm(`Delete "${activeList.name}" and its ${count} saved place(s)?`)) return;
+    try {
+      await deleteList(activeList.id);
+      setActiveListId(ALL_LISTS);
+    } catch (err) {
+      handleError((err as Error).message || 'Could not delete the list.');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const data = await exportSavedPlaces();
+      downloadFile(`saved-places-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(data, null, 2), 'application/json');
+    } catch (err) {
+      handleError((err as Error).message || 'Could not export saved places.');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      const counts = await importSavedPlaces(await readFileAsText(file));
+      setError(null);
+      setStatus(`Imported ${counts.places} place(s) in ${counts.lists} list(s).`);
+    } catch (err) {
+      handleError((err as Error).message || 'Could not import saved places.');
+    }
+  };
+
+  const handleImportPlaces = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      const imported = importPlaces(await readFileAsText(file), file.name);
+      const { list, places } = await importPlacesAsList(file.name.replace(/\.[^.]+$/, ''), imported);
+      setActiveListId(list.id);
+      setTagFilter(null);
+      setError(null);
+      setStatus(`Imported ${places} place(s) into "${list.name}".`);
+    } catch (err) {
+      handleError((err as Error).message || 'Could not import the places.');
+    }
+  };
+
+  const tabClass = (selected: boolean) =>
+    `px-3 py-1 rounded-full text-sm font-medium transition-colors duration-200 ${
+      selected ? 'bg-amber-500 text-white' : 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+    }`;
+
+  return (
+    <div className="p-4 bg-amber-50 rounded-lg shadow-inner">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-xl font-semibold text-amber-800">Saved Places</h3>
+        <div className="flex gap-2">
+          <button type="button" onClick={handleExport} className="px-3 py-1 text-sm rounded-md bg-white border border-amber-300 text-amber-800 hover:bg-amber-100">
+            Export JSON
+          </button>
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="px-3 py-1 text-sm rounded-md bg-white border border-amber-300 text-amber-800 hover:bg-amber-100">
+            Import JSON
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          <button type="button" onClick={() => placesFileInputRef.current?.click()} className="px-3 py-1 text-sm rounded-md bg-white border border-amber-300 text-amber-800 hover:bg-amber-100">
+            Import GeoJSON/CSV
+          </button>
+          <input ref={placesFileInputRef} type="file" accept=".geojson,.json,.csv,application/geo+json,text/csv" onChange={handleImportPlaces} className="hidden" />
+        </div>
+      </div>
+
+      {(error || loadError) && (
+        <div className="p-3 mb-3 text-sm text-red-700 bg-red-100 rounded-lg" role="alert">
+          <span className="font-medium">Error:</span> {error || loadError}
+        </div>
+      )}
+      {status && <p className="mb-3 text-sm text-green-700">{status}</p>}
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        <button type="button" className={tabClass(activeListId === ALL_LISTS)} onClick={() => setActiveListId(ALL_LISTS)}>
+          All ({savedPlaces.length})
+        </button>
+        {lists.map((list) => (
+          <button key={list.id} type="button" className={tabClass(activeListId === list.id)} onClick={() => setActiveListId(list.id)}>
+            {list.name} ({savedPlaces.filter((saved) => saved.listId === list.id).length})
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <form onSubmit={handleCreateList} className="flex gap-2">
+          <input
+            type="text"
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+            placeholder="New list name"
+            className="p-1 text-sm rounded-md border border-gray-300 text-gray-900"
+          />
+          <button type="submit" disabled={!newListName.trim()} className="px-3 py-1 text-sm rounded-md bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50">
+            Create list
+          </button>
+        </form>
+        {visiblePlaces.length > 0 && (
+          <ExportMenu
+            name={activeList?.name || 'Saved places'}
+            records={() => visiblePlaces.map((saved) => toExportRecord(saved.place, [], saved))}
+            className="bg-white border-amber-300 text-amber-800"
+          />
+        )}
+        {activeList && (
+          <>
+            <button type="button" onClick={handleRenameList} className="px-3 py-1 text-sm text-amber-800 hover:underline">Rename</button>
+            <button type="button" onClick={handleDeleteList} className="px-3 py-1 text-sm text-red-600 hover:underline">Delete list</button>
+          </>
+        )}
+      </div>
+
+      {tagFilter && (
+        <p className="mb-3 text-sm text-gray-700">
+          Showing places tagged <span className="font-semibold">#{tagFilter}</span>{' '}
+          <button type="button" onClick={() => setTagFilter(null)} className="text-amber-700 underline">clear</button>
+        </p>
+      )}
+
+      {visiblePlaces.length > 0 ? (
+        <ul className="space-y-3">
+          {visiblePlaces.map((saved) => (
+            <SavedPlaceItem
+              key={saved.id}
+              saved={saved}
+              listOptions={lists}
+              onTagClick={setTagFilter}
+              onError={handleError}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500">No saved places yet. Use "Save" on a recommendation to keep it here.</p>
+      )}
+    </div>
+  );
+};
+
+export default SavedPlacesPanel;
@@ -0,0 +1,240 @@
+import React, { useState, useMemo } from 'react';
+import { SearchHistoryEntry } from '../types';
+import { useSearchHistory } from '../hooks/useSearchHistory';
+import { deleteHistoryEntry, clearHistory, historySignature } from '../services/searchHistoryStore';
+import { diffRankings, MovedPlace } from '../services/rankingDiff';
+import { GROUNDING_TOOL_LABELS } from '../services/groundingRouter';
+
+interface SearchHistoryPanelProps {
+  onRerun: (entry: SearchHistoryEntry) => void;
+  disabled?: boolean; // While a search is running
+}
+
+const describeFilters = (entry: SearchHistoryEntry): string =>
+  [
+    entry.filters.priceRange,
+    entry.filters.cuisineType,
+    ...entry.filters.amenities,
+    entry.groundingMode !== 'auto' ? `${entry.groundingMode} grounding` : '',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+const describeLocation = (entry: SearchHistoryEntry): string =>
+  entry.location.label ||
+  `${entry.location.latitude.toFixed(3)}, ${entry.location.longitude.toFixed(3)} (${entry.location.source})`;
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+interface RankingDiffViewProps {
+  previous: SearchHistoryEntry;
+  current: SearchHistoryEntry;
+}
+
+const RankingDiffView: React.FC<RankingDiffViewProps> = ({ previous, current }) => {
+  const diff = useMemo(() => diffRankings(previous.places, current.places), [previous, current]);
+  const moves = new Map<string, MovedPlace>(diff.moved.map((move) => [move.place.id, move]));
+  const entered = new Set(diff.entered.map((item) => item.place.id));
+
+  return (
+    <div className="mt-3 p-3 bg-white border border-teal-200 rounded-md">
+      <p className="text-sm text-gray-600 mb-2">
+        {formatTimestamp(previous.createdAt)} → {formatTimestamp(current.createdAt)}:{' '}
+        <span className="text-green-700">{diff.entered.length} new</span>,{' '}
+        <span className="text-red-700">{diff.left.length} dropped</span>,{' '}
+        <span className="text-blue-700">{diff.moved.length} moved</span>
+      </p>
+      <ol className="space-y-1 text-sm">
+        {[...current.places].sort((a, b) => a.rank - b.rank).map((place) => {
+          const move = moves.get(place.id);
+          return (
+            <li key={place.id} className="flex items-center gap-2">
+              <span className="w-6 text-right text-gray-500">{place.rank}.</span>
+              <span className="flex-grow text-gray-800">{place.name}</span>
+              {entered.has(place.id) && (
+                <span className="px-2 rounded-full bg-green-100 text-green-800 text-xs font-semibold">NEW</span>
+              )}
+              {move && (
+                <span
+                  className={`px-2 rounded-full text-xs font-semibold ${
+                    move.rank < move.previousRank ? 'bg-blue-100 text-blue-800' : 'bg-orange-100 text-orange-800'
+                  }`}
+                  title={`Was #${move.previousRank}`}
+                >
+                  {move.rank < move.previousRank ? '▲' : '▼'} {Math.abs(move.previousRank - move.rank)}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {diff.left.length > 0 && (
+        <div className="mt-3">
+          <p className="text-sm font-semibold text-red-700">Dropped out:</p>
+          <ul className="text-sm text-gray-600 list-disc list-inside">
+            {diff.left.map(({ place, rank }) => (
+              <li key={place.id}>
+                {place.name} <span className="text-gray-400">(was #{rank})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Local Guide search history: every search with its filters, location and results,
+ * with re-run and a ranking diff against an earlier run of the same search.
+ */
+const SearchHistoryPanel: React.FC<SearchHistoryPanelProps> = ({ onRerun, disabled = false }) => {
+  const { entries, error: loadError } = useSearchHistory();
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [baselineId, setBaselineId] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const successfulEntries = entries.filter((entry) => entry.status === 'success');
+
+  // Earlier successful runs of the same search, newest first
+  const earlierRunsOf = (entry: SearchHistoryEntry) => {
+    const signature = historySignature(entry);
+    return successfulEntries.filter(
+      (other) => other.createdAt < entry.createdAt && historySignature(other) === signature,
+    );
+  };
+
+  const handleCompare = (entry: SearchHistoryEntry) => {
+    if (comparingId === entry.id) {
+      setComparingId(null);
+      return;
+    }
+    setComparingId(entry.id);
+    setBaselineId(earlierRunsOf(entry)[0]?.id || '');
+  };
+
+  const run = (action: Promise<void>) => {
+    action.catch((err) => {
+      console.error('Search history update failed:', err);
+      setError((err as Error).message || 'Could not update the search history.');
+    });
+  };
+
+  return (
+    <div className="p-4 bg-teal-50 rounded-lg shadow-inner">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-xl font-semibold text-teal-800">Search History</h3>
+        {entries.length > 0 && (
+          <button
+            type="button"
+            onClick={() => window.confirm('Clear the whole search history?') && run(clearHistory())}
+            className="px-3 py-1 text-sm text-red-600 hover:underline"
+          >
+            Clear history
+          </button>
+        )}
+      </div>
+
+      {(error || loadError) && (
+        <div className="p-3 mb-3 text-sm text-red-700 bg-red-100 rounded-lg" role="alert">
+          <span className="font-medium">Error:</span> {error || loadError}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-gray-500">No searches yet. Every Local Guide search is recorded here.</p>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map((entry) => {
+            const earlierRuns = earlierRunsOf(entry);
+            const comparable = entry.status === 'success' && successfulEntries.length > 1;
+            const baseline = successfulEntries.find((other) => other.id === baselineId);
+            return (
+              <li key={entry.id} className="p-3 bg-white border border-teal-200 rounded-md shadow-sm">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold text-gray-800">{entry.query}</p>
+                    {describeFilters(entry) && <p className="text-sm text-gray-600">{describeFilters(entry)}</p>}
+                    <p className="text-xs text-gray-500">
+                      {formatTimestamp(entry.createdAt)} · {describeLocation(entry)}
+                      {entry.groundingTool && ` · ${GROUNDING_TOOL_LABELS[entry.groundingTool]}`}
+                    </p>
+                    <p className="text-xs mt-1">
+                      {entry.status === 'success' ? (
+                        <span className="text-gray-600">
+                          {entry.places.length} result(s)
+                          {earlierRuns.length > 0 && ` · run ${earlierRuns.length + 1} of this search`}
+                        </span>
+                      ) : (
+                        <span className="text-red-600">Failed: {entry.error}</span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => onRerun(entry)}
+                      disabled={disabled}
+                      className="px-3 py-1 rounded-md bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-50"
+                    >
+                      Re-run
+                    </button>
+                    {comparable && (
+                      <button
+                        type="button"
+                        onClick={() => handleCompare(entry)}
+                        className="px-3 py-1 rounded-md border border-teal-400 text-teal-800 hover:bg-teal-100"
+                        aria-expanded={comparingId === entry.id}
+                      >
+                        {comparingId === entry.id ? 'Hide diff' : 'Diff'}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => run(deleteHistoryEntry(entry.id))}
+                      className="px-2 py-1 text-red-600 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {comparingId === entry.id && (
+                  <div className="mt-3">
+                    <label className="text-sm text-gray-700">
+                      Compare with{' '}
+                      <select
+                        value={baselineId}
+                        onChange={(e) => setBaselineId(e.target.value)}
+                        className="p-1 rounded-md border border-gray-300 text-gray-900"
+                      >
+                        <option value="">Choose an earlier run…</option>
+                        {successfulEntries
+                          .filter((other) => other.id !== entry.id)
+                          .map((other) => (
+                            <option key={other.id} value={other.id}>
+                              {earlierRuns.includes(other) ? '↺ ' : ''}{other.query} — {formatTimestamp(other.createdAt)}
+                            </option>
+                          ))}
+                      </select>
+                    </label>
+                    {baseline ? (
+                      <RankingDiffView previous={baseline} current={entry} />
+                    ) : (
+                      <p className="mt-2 text-sm text-gray-500">
+                        {earlierRuns.length === 0 ? 'This search has not been run from here before; pick any run to compare.' : 'Pick a run to compare.'}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchHistoryPanel;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { GroundingSource } from '../types';
+
+interface SourceListProps {
+  sources: GroundingSource[];
+}
+
+const KIND_LABELS: Record<GroundingSource['kind'], string> = {
+  maps: 'Google Maps',
+  web: 'Web',
+};
+
+/**
+ * The numbered sources behind a grounded answer, each listed once. Numbers match the
+ * citation markers in the answer.
+ */
+const SourceList: React.FC<SourceListProps> = ({ sources }) => {
+  if (sources.length === 0) {
+    return null;
+  }
+  return (
+    <div className="mt-6 p-4 bg-purple-50 rounded-lg shadow-inner">
+      <h3 className="text-xl font-semibold text-purple-800 mb-4">Sources:</h3>
+      <ol className="space-y-2 text-gray-700">
+        {sources.map((source) => (
+          <li key={source.number} className="flex gap-2">
+            <span className="shrink-0 w-8 text-right font-semibold text-purple-800">[{source.number}]</span>
+            <div className="min-w-0">
+              <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:text-indigo-800 underline break-words">
+                {source.title}
+              </a>
+              <span className="ml-2 text-xs text-gray-500">{KIND_LABELS[source.kind]}</span>
+              {source.snippet && <p className="text-sm text-gray-500 break-words">{source.snippet}</p>}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default SourceList;
@@ -0,0 +1,26 @@
+import { useRef, useEffect, useCallback } from 'react';
+
+/**
+ * One cancellable request at a time: `start` aborts the previous request and returns
+ * the signal for the next one, `abort` stops the current one, and unmounting aborts
+ * whatever is still running.
+ */
+export function useAbortController() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const abort = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const start = useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  useEffect(() => abort, [abort]);
+
+  return { start, abort };
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Conversation, ConversationKind } from '../types';
+import { getConversations, subscribeConversations } from '../services/conversationStore';
+
+/**
+ * Loads the saved conversations of one kind from IndexedDB and keeps them in sync with later changes.
+ */
+export function useConversations(kind: ConversationKind) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setConversations(await getConversations(kind));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load conversations:', err);
+      setError((err as Error).message || 'Could not load conversations.');
+    } finally {
+      setLoaded(true);
+    }
+  }, [kind]);
+
+  useEffect(() => {
+    reload();
+    return subscribeConversations(reload);
+  }, [reload]);
+
+  return { conversations, loaded, error, reload };
+}
@@ -0,0 +1,33 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LivePersona, LiveSettings } from '../types';
+import { DEFAULT_LIVE_SETTINGS, BUILT_IN_PERSONAS } from '../services/liveSettings';
+import { getLivePersonas, getLiveSettings, subscribeLiveSettings } from '../services/liveSettingsStore';
+
+/**
+ * Loads the Live Chat settings and personas from IndexedDB and keeps them in sync with later changes.
+ * Until they are loaded, or if they cannot be, the defaults apply.
+ */
+export function useLiveSettings() {
+  const [settings, setSettings] = useState<LiveSettings>(DEFAULT_LIVE_SETTINGS);
+  const [personas, setPersonas] = useState<LivePersona[]>(BUILT_IN_PERSONAS);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const [nextSettings, nextPersonas] = await Promise.all([getLiveSettings(), getLivePersonas()]);
+      setSettings(nextSettings);
+      setPersonas(nextPersonas);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load Live settings:', err);
+      setError((err as Error).message || 'Could not load Live settings.');
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return subscribeLiveSettings(reload);
+  }, [reload]);
+
+  return { settings, personas, error, reload };
+}
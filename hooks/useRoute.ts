@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Route, formatRoute, parseRoute } from '../services/router';
+
+/**
+ * The route in the location hash. `navigate` adds a history entry unless `replace` is
+ * set; Back and Forward, edited URLs and opened links update the route too.
+ */
+export function useRoute() {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const handleChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', handleChange);
+    window.addEventListener('popstate', handleChange);
+    return () => {
+      window.removeEventListener('hashchange', handleChange);
+      window.removeEventListener('popstate', handleChange);
+    };
+  }, []);
+
+  const navigate = useCallback((next: Route, replace: boolean = false) => {
+    const hash = formatRoute(next);
+    if (hash !== window.location.hash) {
+      // pushState and replaceState do not fire hashchange, so the state is set below
+      if (replace) {
+        window.history.replaceState(null, '', hash);
+      } else {
+        window.history.pushState(null, '', hash);
+      }
+    }
+    setRoute(next);
+  }, []);
+
+  return { route, navigate };
+}
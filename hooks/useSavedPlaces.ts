@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SavedPlace, SavedPlaceList } from '../types';
+import { getLists, getSavedPlaces, subscribeSavedPlaces } from '../services/savedPlacesStore';
+
+/**
+ * Loads every saved list and place from IndexedDB and keeps them in sync with later changes.
+ */
+export function useSavedPlaces() {
+  const [lists, setLists] = useState<SavedPlaceList[]>([]);
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const [nextLists, nextPlaces] = await Promise.all([getLists(), getSavedPlaces()]);
+      setLists(nextLists);
+      setSavedPlaces(nextPlaces);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load saved places:', err);
+      setError((err as Error).message || 'Could not load saved places.');
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return subscribeSavedPlaces(reload);
+  }, [reload]);
+
+  return { lists, savedPlaces, error, reload };
+}
@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SearchHistoryEntry } from '../types';
+import { getHistory, subscribeSearchHistory } from '../services/searchHistoryStore';
+
+/**
+ * Loads the Local Guide search history from IndexedDB and keeps it in sync with later changes.
+ */
+export function useSearchHistory() {
+  const [entries, setEntries] = useState<SearchHistoryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setEntries(await getHistory());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load search history:', err);
+      setError((err as Error).message || 'Could not load search history.');
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return subscribeSearchHistory(reload);
+  }, [reload]);
+
+  return { entries, error, reload };
+}
@@ -0,0 +1,296 @@
+import { Content } from "@google/genai";
+import { Amenity, GroundingMode, ImageDataPart, LatLng, Place, PlaceFilters, PriceRange, UserLocation } from "../types";
+import {
+  analyzeImage,
+  comparePlaces,
+  planItinerary,
+  resolveLocation,
+  streamChatReply,
+  streamComplexQuery,
+  streamPlacesRecommendations,
+  summarizeConversation,
+} from "../services/geminiService";
+import { ItineraryOptions } from "../services/itinerary";
+import { LIVE_LANGUAGES, LIVE_VOICES, MAX_LIVE_INSTRUCTION_LENGTH } from "../services/liveSettings";
+import { AMENITIES } from "../services/placeParser";
+import {
+  API_ROUTES,
+  ChatRequest,
+  ChatSummaryRequest,
+  ComparisonRequest,
+  ComplexQueryRequest,
+  ImageAnalysisRequest,
+  ItineraryRequest,
+  LiveConnectRequest,
+  LocationRequest,
+  RecommendationsRequest,
+  TextResponse,
+} from "../services/proxy/protocol";
+
+const MAX_QUERY_LENGTH = 500;
+const MAX_PROMPT_LENGTH = 20_000;
+const MAX_CHAT_TURNS = 200;
+const MAX_PLACES = 10;
+const GROUNDING_MODES: GroundingMode[] = ['auto', 'maps', 'search', 'maps+search'];
+const PRICE_RANGES: Exclude<PriceRange, ''>[] = ['$', '$$', '$$$', '$$$$'];
+
+/**
+ * A request the server refuses; answered with `status` and the message.
+ */
+export class RequestError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+function expectObject(value: unknown, name: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new RequestError(`"${name}" must be an object.`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, name: string, maxLength: number, allowEmpty: boolean = false): string {
+  if (typeof value !== 'string' || (!allowEmpty && !value.trim())) {
+    throw new RequestError(`"${name}" must be a non-empty string.`);
+  }
+  if (value.length > maxLength) {
+    throw new RequestError(`"${name}" is longer than ${maxLength} characters.`);
+  }
+  return value;
+}
+
+function expectLatLng(value: unknown, name: string): LatLng {
+  const point = expectObject(value, name);
+  const { latitude, longitude } = point;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number' || !Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    throw new RequestError(`"${name}" must have a valid latitude and longitude.`);
+  }
+  return { latitude, longitude };
+}
+
+function expectUserLocation(value: unknown, name: string): UserLocation {
+  const location = expectObject(value, name);
+  return {
+    ...expectLatLng(location, name),
+    source: location.source === 'manual' ? 'manual' : 'device',
+    label: typeof location.label === 'string' ? location.label.slice(0, MAX_QUERY_LENGTH) : undefined,
+  };
+}
+
+function optionalString(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.slice(0, maxLength) : '';
+}
+
+function optionalNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function expectPriceRange(value: unknown): PriceRange {
+  return PRICE_RANGES.find((range) => range === value) || '';
+}
+
+function expectAmenities(value: unknown): Amenity[] {
+  return Array.isArray(value) ? AMENITIES.filter((amenity) => value.includes(amenity)) : [];
+}
+
+function expectFilters(value: unknown): PlaceFilters {
+  const filters = expectObject(value, 'filters');
+  return {
+    priceRange: expectPriceRange(filters.priceRange),
+    cuisineType: optionalString(filters.cuisineType, 100),
+    amenities: expectAmenities(filters.amenities),
+  };
+}
+
+// Places come back from our own recommendations, but every field that can reach a
+// prompt is checked again; grounding chunks are not needed server-side and are dropped
+function expectPlaces(value: unknown, min: number, max: number): Place[] {
+  if (!Array.isArray(value) || value.length < min || value.length > max) {
+    throw new RequestError(`"places" must be a list of ${min} to ${max} places.`);
+  }
+  return value.map((place, index) => {
+    const name = `places[${index}]`;
+    const checked = expectObject(place, name);
+    return {
+      id: expectString(checked.id, `${name}.id`, MAX_QUERY_LENGTH),
+      rank: optionalNumber(checked.rank) ?? index + 1,
+      name: expectString(checked.name, `${name}.name`, MAX_QUERY_LENGTH),
+      category: optionalString(checked.category, MAX_QUERY_LENGTH),
+      summary: optionalString(checked.summary, MAX_PROMPT_LENGTH / 10),
+      rating: optionalNumber(checked.rating),
+      ratingScale: optionalNumber(checked.ratingScale),
+      reviewCount: optionalNumber(checked.reviewCount),
+      priceLevel: expectPriceRange(checked.priceLevel) || null,
+      cuisine: optionalString(checked.cuisine, 100),
+      amenities: expectAmenities(checked.amenities),
+      address: optionalString(checked.address, MAX_QUERY_LENGTH),
+      location: checked.location == null ? null : expectLatLng(checked.location, `${name}.location`),
+      mapsUri: typeof checked.mapsUri === 'string' && /^https?:\/\//.test(checked.mapsUri) ? checked.mapsUri.slice(0, MAX_QUERY_LENGTH) : null,
+      groundingChunk: null,
+    };
+  });
+}
+
+function expectContents(value: unknown): Content[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_CHAT_TURNS) {
+    throw new RequestError(`"contents" must be a list of 1 to ${MAX_CHAT_TURNS} turns.`);
+  }
+  let length = 0;
+  const contents = value.map((content, index) => {
+    const turn = expectObject(content, `contents[${index}]`);
+    if ((turn.role !== 'user' && turn.role !== 'model') || !Array.isArray(turn.parts)) {
+      throw new RequestError(`"contents[${index}]" must be a user or model turn with text parts.`);
+    }
+    const parts = turn.parts.map((part: unknown, partIndex: number) => {
+      const text = expectString(expectObject(part, `contents[${index}].parts[${partIndex}]`).text, `contents[${index}].parts[${partIndex}].text`, MAX_PROMPT_LENGTH, true);
+      length += text.length;
+      return { text };
+    });
+    return { role: turn.role, parts };
+  });
+  if (length > MAX_PROMPT_LENGTH * 5) {
+    throw new RequestError('The conversation is too long.');
+  }
+  return contents;
+}
+
+function expectImage(value: unknown): ImageDataPart {
+  const inlineData = expectObject(expectObject(value, 'image').inlineData, 'image.inlineData');
+  if (typeof inlineData.mimeType !== 'string' || !inlineData.mimeType.startsWith('image/') || typeof inlineData.data !== 'string') {
+    throw new RequestError('"image" must be base64 image data with an image MIME type.');
+  }
+  return { inlineData: { mimeType: inlineData.mimeType, data: inlineData.data } };
+}
+
+function expectItineraryOptions(value: unknown): ItineraryOptions {
+  const options = expectObject(value, 'options');
+  const { date, startMinutes, endMinutes } = options;
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new RequestError('"options.date" must be a YYYY-MM-DD date.');
+  }
+  if (typeof startMinutes !== 'number' || typeof endMinutes !== 'number' || !Number.isInteger(startMinutes) || !Number.isInteger(endMinutes) || startMinutes < 0 || endMinutes > 24 * 60 || endMinutes <= startMinutes) {
+    throw new RequestError('"options" must have a start time before its end time, in minutes after midnight.');
+  }
+  return { date, startMinutes, endMinutes, origin: options.origin ? expectLatLng(options.origin, 'options.origin') : null };
+}
+
+const LIVE_CONNECT_FIELDS: string[] = ['voiceName', 'languageCode', 'systemInstruction', 'placeSearch'];
+
+/**
+ * Checks the settings a browser asks for in a Live session; anything the app does not
+ * offer, including any field besides these, is refused.
+ */
+export function expectLiveConnectRequest(value: unknown): LiveConnectRequest {
+  const fields = expectObject(value, 'request');
+  const unknownField = Object.keys(fields).find((field) => !LIVE_CONNECT_FIELDS.includes(field));
+  if (unknownField) {
+    throw new RequestError(`"${unknownField}" cannot be set for a Live session.`);
+  }
+  const voice = LIVE_VOICES.find((candidate) => candidate.name === fields.voiceName);
+  if (!voice) {
+    throw new RequestError('"voiceName" must be one of the Live voices.');
+  }
+  const language = LIVE_LANGUAGES.find((candidate) => candidate.code === fields.languageCode);
+  if (!language) {
+    throw new RequestError('"languageCode" must be one of the Live languages.');
+  }
+  if (typeof fields.placeSearch !== 'boolean') {
+    throw new RequestError('"placeSearch" must be true or false.');
+  }
+  return {
+    voiceName: voice.name,
+    languageCode: language.code,
+    systemInstruction: expectString(fields.systemInstruction, 'systemInstruction', MAX_LIVE_INSTRUCTION_LENGTH),
+    placeSearch: fields.placeSearch,
+  };
+}
+
+type JsonEndpoint = (body: unknown, signal: AbortSignal) => Promise<unknown>;
+type StreamEndpoint = (body: unknown, onUpdate: (data: unknown) => void, signal: AbortSignal) => Promise<unknown>;
+
+/**
+ * Endpoints answered with a single JSON body, by route. Each checks its request body,
+ * then runs the same service function the browser would run without the proxy. `signal`
+ * is aborted when the browser goes away, which stops the model call.
+ */
+export const JSON_ENDPOINTS: Record<string, JsonEndpoint> = {
+  [API_ROUTES.location]: async (body, signal) => {
+    const request: LocationRequest = { query: expectString(expectObject(body, 'body').query, 'query', MAX_QUERY_LENGTH) };
+    return resolveLocation(request.query, signal);
+  },
+  [API_ROUTES.chatSummary]: async (body, signal) => {
+    const fields = expectObject(body, 'body');
+    if (!Array.isArray(fields.messages) || fields.messages.length > MAX_CHAT_TURNS) {
+      throw new RequestError(`"messages" must be a list of at most ${MAX_CHAT_TURNS} messages.`);
+    }
+    const request: ChatSummaryRequest = {
+      previousSummary: fields.previousSummary == null ? null : expectString(fields.previousSummary, 'previousSummary', MAX_PROMPT_LENGTH),
+      messages: fields.messages.map((message: unknown, index: number) => {
+        const checked = expectObject(message, `messages[${index}]`);
+        return {
+          sender: checked.sender === 'model' ? 'model' : 'user',
+          text: expectString(checked.text, `messages[${index}].text`, MAX_PROMPT_LENGTH, true),
+        };
+      }),
+    };
+    const response: TextResponse = { text: await summarizeConversation(request.previousSummary, request.messages, signal) };
+    return response;
+  },
+  [API_ROUTES.imageAnalysis]: async (body, signal) => {
+    const fields = expectObject(body, 'body');
+    const request: ImageAnalysisRequest = {
+      image: expectImage(fields.image),
+      prompt: expectString(fields.prompt, 'prompt', MAX_PROMPT_LENGTH),
+    };
+    const response: TextResponse = { text: await analyzeImage(request.image, request.prompt, signal) };
+    return response;
+  },
+  [API_ROUTES.itinerary]: async (body, signal) => {
+    const fields = expectObject(body, 'body');
+    const request: ItineraryRequest = {
+      places: expectPlaces(fields.places, 1, MAX_PLACES),
+      options: expectItineraryOptions(fields.options),
+    };
+    return planItinerary(request.places, request.options, signal);
+  },
+  [API_ROUTES.comparison]: async (body, signal) => {
+    const fields = expectObject(body, 'body');
+    const request: ComparisonRequest = {
+      places: expectPlaces(fields.places, 2, 4),
+      purpose: expectString(fields.purpose, 'purpose', MAX_QUERY_LENGTH),
+      userLocation: expectUserLocation(fields.userLocation, 'userLocation'),
+    };
+    return comparePlaces(request.places, request.purpose, request.userLocation, signal);
+  },
+};
+
+/**
+ * Endpoints answered with newline-delimited `StreamEvent`s, by route.
+ */
+export const STREAM_ENDPOINTS: Record<string, StreamEndpoint> = {
+  [API_ROUTES.recommendations]: async (body, onUpdate, signal) => {
+    const fields = expectObject(body, 'body');
+    const request: RecommendationsRequest = {
+      query: expectString(fields.query, 'query', MAX_QUERY_LENGTH),
+      userLocation: expectUserLocation(fields.userLocation, 'userLocation'),
+      filters: expectFilters(fields.filters),
+      groundingMode: GROUNDING_MODES.find((mode) => mode === fields.groundingMode) || 'auto',
+    };
+    return streamPlacesRecommendations(request.query, request.userLocation, request.filters, request.groundingMode, onUpdate, false, signal);
+  },
+  [API_ROUTES.chat]: async (body, onUpdate, signal) => {
+    const fields = expectObject(body, 'body');
+    const request: ChatRequest = {
+      contents: expectContents(fields.contents),
+      systemInstruction: fields.systemInstruction == null ? undefined : expectString(fields.systemInstruction, 'systemInstruction', MAX_PROMPT_LENGTH),
+    };
+    const response: TextResponse = { text: await streamChatReply(request.contents, request.systemInstruction, onUpdate, signal) };
+    return response;
+  },
+  [API_ROUTES.complexQuery]: async (body, onUpdate, signal) => {
+    const request: ComplexQueryRequest = { prompt: expectString(expectObject(body, 'body').prompt, 'prompt', MAX_PROMPT_LENGTH) };
+    const response: TextResponse = { text: await streamComplexQuery(request.prompt, onUpdate, signal) };
+    return response;
+  },
+};
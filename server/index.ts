@@ -0,0 +1,263 @@
+import http from 'http';
+import path from 'path';
+import { loadEnv } from 'vite';
+import { WebSocketServer } from 'ws';
+import { createModelProvider, setModelProvider } from '../services/providers';
+import { FileFixtureStore } from '../services/fixtures/fileFixtureStore';
+import { ServiceError, ServiceErrorKind } from '../services/errors';
+import { API_ROUTES, ErrorResponse, StreamEvent } from '../services/proxy/protocol';
+import { JSON_ENDPOINTS, STREAM_ENDPOINTS, RequestError } from './endpoints';
+import { relayLiveSession } from './liveRelay';
+import { RateLimiter } from './rateLimiter';
+
+/**
+ * Proxy server: holds the Gemini API key and answers the browser's typed requests
+ * (see services/proxy/protocol.ts), with a WebSocket relay for Live sessions and a
+ * rate limit per client. Reads the same .env files as Vite.
+ */
+
+const env = loadEnv(process.env.NODE_ENV === 'production' ? 'production' : 'development', process.cwd(), '');
+const PORT = Number(env.API_PORT) || 8787;
+const HOST = env.API_HOST || '127.0.0.1'; // Not reachable from other machines unless set, e.g. to 0.0.0.0
+// Pages that may use the server: the dev server and `vite preview` by default. Requests
+// without an Origin (curl, scripts) are allowed, since no web page can send those.
+const ALLOWED_ORIGINS = new Set((env.ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000,http://localhost:4173,http://127.0.0.1:4173')
+  .split(',')
+  .map((origin) => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean));
+const PROVIDER = env.MODEL_PROVIDER || 'gemini';
+const REQUESTS_PER_MINUTE = Number(env.RATE_LIMIT_PER_MINUTE) || 30;
+const LIVE_SESSIONS_PER_CLIENT = Number(env.LIVE_SESSIONS_PER_CLIENT) || 2;
+const TRUST_PROXY = env.TRUST_PROXY === 'true'; // Behind a reverse proxy, identify clients by X-Forwarded-For
+const MAX_BODY_BYTES = 15 * 1024 * 1024; // Room for a large photo in base64
+const OVERSIZE_BODY_GRACE_MS = 5000; // How long the client may go on sending after a 413
+const MAX_LIVE_MESSAGE_BYTES = 1024 * 1024;
+
+if (PROVIDER === 'proxy') {
+  console.error('MODEL_PROVIDER=proxy only applies to the browser. Use gemini, fake, record or replay for the server.');
+  process.exit(1);
+}
+if ((PROVIDER === 'gemini' || PROVIDER === 'record') && !env.GEMINI_API_KEY) {
+  console.error('Set GEMINI_API_KEY in .env.local, or MODEL_PROVIDER=fake to run without one.');
+  process.exit(1);
+}
+setModelProvider(createModelProvider(PROVIDER, env.GEMINI_API_KEY, new FileFixtureStore(path.resolve(env.FIXTURES_DIR || 'fixtures'))));
+
+const rateLimiter = new RateLimiter(REQUESTS_PER_MINUTE, 60_000);
+const liveSessions = new Map<string, number>();
+setInterval(() => rateLimiter.prune(), 60_000).unref();
+
+function clientIdOf(req: http.IncomingMessage): string {
+  const forwarded = TRUST_PROXY ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+}
+
+// Any other site the user has open could otherwise spend the API key
+function isAllowedOrigin(req: http.IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  return origin === undefined || ALLOWED_ORIGINS.has(origin);
+}
+
+// Only JSON bodies: a cross-site form or text/plain POST skips the browser's CORS preflight
+function isJsonRequest(req: http.IncomingMessage): boolean {
+  return (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase() === 'application/json';
+}
+
+function reply(res: http.ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+function replyError(res: http.ServerResponse, status: number, error: string, details: Omit<ErrorResponse, 'error'> = {}): void {
+  const body: ErrorResponse = { error, ...details };
+  reply(res, status, body);
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+      // The rest of an oversize body is read and dropped, so the client gets to see the 413
+      if (tooLarge) return;
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        tooLarge = true;
+        chunks = [];
+        reject(new RequestError('The request body is too large.', 413));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (tooLarge) return;
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new RequestError('The request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// Service errors already say what failed ("Failed to ..."); they come from the model, hence 502
+// unless the model asked to slow down or timed out
+const STATUS_BY_KIND: Partial<Record<ServiceErrorKind, number>> = {
+  'rate-limit': 429,
+  timeout: 504,
+  unavailable: 503,
+};
+
+function statusOf(error: unknown): number {
+  if (error instanceof RequestError) {
+    return error.status;
+  }
+  return (error instanceof ServiceError && STATUS_BY_KIND[error.kind]) || 502;
+}
+
+// The kind of a failed model call travels to the browser, which rebuilds the ServiceError
+function detailsOf(error: unknown): Omit<ErrorResponse, 'error'> {
+  return error instanceof ServiceError ? { kind: error.kind, retryAfterMs: error.retryAfterMs } : {};
+}
+
+function replyFailure(res: http.ServerResponse, error: unknown): void {
+  replyError(res, statusOf(error), (error as Error).message, detailsOf(error));
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const route = (req.url || '').split('?')[0];
+  const jsonEndpoint = JSON_ENDPOINTS[route];
+  const streamEndpoint = STREAM_ENDPOINTS[route];
+  if (!jsonEndpoint && !streamEndpoint) {
+    replyError(res, 404, `No endpoint at ${route}.`);
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    replyError(res, 405, 'Method not allowed.');
+    return;
+  }
+  if (!isAllowedOrigin(req)) {
+    replyError(res, 403, `Requests from ${req.headers.origin} are not allowed. Add the origin to ALLOWED_ORIGINS.`);
+    return;
+  }
+  if (!isJsonRequest(req)) {
+    replyError(res, 415, 'The request body must be sent as application/json.');
+    return;
+  }
+
+  const limit = rateLimiter.take(clientIdOf(req));
+  if (!limit.allowed) {
+    res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+    replyError(res, 429, `Too many requests. Try again in ${limit.retryAfterSeconds} s.`, {
+      kind: 'rate-limit',
+      retryAfterMs: limit.retryAfterSeconds * 1000,
+    });
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch (error) {
+    if (error instanceof RequestError && error.status === 413) {
+      // Do not wait for the rest of a body that may never end
+      res.setHeader('Connection', 'close');
+      res.on('finish', () => setTimeout(() => req.destroy(), OVERSIZE_BODY_GRACE_MS).unref());
+    }
+    replyFailure(res, error);
+    return;
+  }
+
+  // A browser that stops waiting (Stop button, new search, closed tab) stops the model call
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  if (jsonEndpoint) {
+    try {
+      reply(res, 200, await jsonEndpoint(body, controller.signal));
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        replyFailure(res, error);
+      }
+    }
+    return;
+  }
+
+  // The status line waits for the first event, so a rejected request still gets a 4xx
+  const write = (event: StreamEvent<unknown, unknown>) => {
+    if (!res.headersSent) {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    }
+    if (!res.writableEnded && !res.destroyed) {
+      res.write(JSON.stringify(event) + '\n');
+    }
+  };
+  try {
+    const result = await streamEndpoint(body, (data) => write({ type: 'update', data }), controller.signal);
+    write({ type: 'result', data: result });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return;
+    }
+    if (!res.headersSent) {
+      replyFailure(res, error);
+      return;
+    }
+    write({ type: 'error', error: (error as Error).message, ...detailsOf(error) });
+  }
+  res.end();
+}
+
+const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch((error) => {
+    console.error('Unhandled proxy error:', error);
+    if (!res.headersSent) {
+      replyError(res, 500, 'Internal server error.');
+    } else {
+      res.end();
+    }
+  });
+});
+
+const liveServer = new WebSocketServer({ noServer: true, maxPayload: MAX_LIVE_MESSAGE_BYTES });
+
+server.on('upgrade', (req, socket, head) => {
+  if ((req.url || '').split('?')[0] !== API_ROUTES.live) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+  if (!isAllowedOrigin(req)) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  const clientId = clientIdOf(req);
+  const open = liveSessions.get(clientId) || 0;
+  if (open >= LIVE_SESSIONS_PER_CLIENT || !rateLimiter.take(clientId).allowed) {
+    socket.end('HTTP/1.1 429 Too Many Requests\r\n\r\n');
+    return;
+  }
+  liveServer.handleUpgrade(req, socket, head, (ws) => {
+    liveSessions.set(clientId, (liveSessions.get(clientId) || 0) + 1);
+    ws.on('close', () => {
+      const remaining = (liveSessions.get(clientId) || 1) - 1;
+      if (remaining > 0) {
+        liveSessions.set(clientId, remaining);
+      } else {
+        liveSessions.delete(clientId);
+      }
+    });
+    relayLiveSession(ws);
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Proxy server listening on http://${HOST}:${PORT} (MODEL_PROVIDER=${PROVIDER}, ${REQUESTS_PER_MINUTE} requests per minute per client)`);
+});
@@ -0,0 +1,89 @@
+import { WebSocket, RawData } from "ws";
+import { getModelProvider, LiveSession } from "../services/providers";
+import { MODELS } from "../services/models";
+import { buildLiveConfig } from "../services/geminiService";
+import { LiveClientMessage, LiveConnectRequest, LiveRelayMessage } from "../services/proxy/protocol";
+import { expectLiveConnectRequest } from "./endpoints";
+
+// Close reasons are limited to 123 bytes by the WebSocket protocol
+const MAX_CLOSE_REASON_LENGTH = 120;
+
+/**
+ * Relays one browser WebSocket to a Live session of the configured provider. The
+ * browser's first message picks the voice, language, persona instruction and whether
+ * places can be searched; the server builds the session config from those, with the
+ * app's Live model. Closing either side closes the other.
+ */
+export function relayLiveSession(socket: WebSocket): void {
+  let sessionPromise: Promise<LiveSession> | null = null;
+  let closed = false;
+
+  const send = (message: LiveRelayMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+  const closeSocket = (code: number, reason: string) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.close(code, reason.slice(0, MAX_CLOSE_REASON_LENGTH));
+    }
+  };
+
+  socket.on('message', (data: RawData) => {
+    let message: LiveClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      closeSocket(1007, 'Messages must be JSON.');
+      return;
+    }
+
+    if (!sessionPromise) {
+      if (message.type !== 'connect') {
+        closeSocket(1008, 'The first message must be "connect" with the session settings.');
+        return;
+      }
+      let request: LiveConnectRequest;
+      try {
+        request = expectLiveConnectRequest(message.request);
+      } catch (error) {
+        closeSocket(1008, (error as Error).message);
+        return;
+      }
+      sessionPromise = getModelProvider().connectLive({
+        model: MODELS.liveAudio,
+        config: buildLiveConfig(request),
+        callbacks: {
+          onopen: () => send({ type: 'open' }),
+          onmessage: (serverMessage) => send({ type: 'message', message: serverMessage }),
+          onerror: (event) => send({ type: 'error', error: event.message || 'Live session error.' }),
+          onclose: (event) => closeSocket(1000, event.reason || 'Live session closed.'),
+        },
+      });
+      sessionPromise
+        .then((session) => {
+          // The browser may have gone away while the session was connecting
+          if (closed) session.close();
+        })
+        .catch((error) => {
+          console.error('Failed to open Live session:', error);
+          send({ type: 'error', error: 'Failed to open Live session: ' + (error as Error).message });
+          closeSocket(1011, 'Live session failed.');
+        });
+      return;
+    }
+
+    if (message.type === 'realtimeInput') {
+      sessionPromise.then((session) => session.sendRealtimeInput(message.params)).catch(() => {});
+    } else if (message.type === 'toolResponse') {
+      sessionPromise.then((session) => session.sendToolResponse(message.params)).catch(() => {});
+    } else {
+      closeSocket(1008, `Unexpected "${message.type}" message.`);
+    }
+  });
+
+  socket.on('close', () => {
+    closed = true;
+    sessionPromise?.then((session) => session.close()).catch(() => {});
+  });
+}
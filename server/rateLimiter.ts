@@ -0,0 +1,36 @@
+/**
+ * Token bucket per client: each client can make `limit` requests in a burst, and gets
+ * them back at an even rate over `windowMs`.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  /**
+   * Takes one request from the client's budget. When none is left, returns how many
+   * seconds until the next one is available.
+   */
+  take(clientId: string, now: number = Date.now()): { allowed: boolean; retryAfterSeconds: number } {
+    const refillPerMs = this.limit / this.windowMs;
+    const bucket = this.buckets.get(clientId) || { tokens: this.limit, updatedAt: now };
+    bucket.tokens = Math.min(this.limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(clientId, bucket);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  // Forgets clients whose bucket has refilled, so the map does not grow without bound
+  prune(now: number = Date.now()): void {
+    for (const [clientId, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= this.windowMs) {
+        this.buckets.delete(clientId);
+      }
+    }
+  }
+}
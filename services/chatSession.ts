@@ -0,0 +1,190 @@
+import { Content } from "@google/genai";
+import { ChatMessage, ConversationSummary } from "../types";
+import { streamChatReply, summarizeConversation } from "./geminiService";
+import { isCancellation } from "./errors";
+
+// Recent turns are sent verbatim up to this many characters (about 6k tokens);
+// anything older is folded into a running summary.
+export const CONTEXT_CHAR_BUDGET = 24000;
+// The latest exchanges always go verbatim, however long they are
+const MIN_VERBATIM_MESSAGES = 4;
+
+export interface ChatSessionState {
+  messages: ChatMessage[];
+  summary: ConversationSummary | null;
+}
+
+type MessagesListener = (messages: ChatMessage[]) => void;
+
+function newMessageId(sender: ChatMessage['sender']): string {
+  return `${Date.now().toString()}-${Math.random().toString(36).slice(2, 8)}-${sender}`;
+}
+
+/**
+ * Index of the first message that fits in `budget` characters counting back from the
+ * end, moved forward to a user turn so the verbatim part never starts with a reply.
+ */
+function verbatimStart(messages: ChatMessage[], budget: number): number {
+  let used = 0;
+  let start = messages.length;
+  while (start > 0) {
+    const length = messages[start - 1].text.length;
+    if (messages.length - start >= MIN_VERBATIM_MESSAGES && used + length > budget) {
+      break;
+    }
+    used += length;
+    start--;
+  }
+  while (start > 0 && start < messages.length && messages[start].sender !== 'user') {
+    start++;
+  }
+  return start;
+}
+
+function toContents(messages: ChatMessage[]): Content[] {
+  // Consecutive turns of the same role (e.g. after a failed reply) are merged
+  const contents: Content[] = [];
+  for (const message of messages) {
+    const role = message.sender;
+    const last = contents[contents.length - 1];
+    if (last?.role === role) {
+      last.parts!.push({ text: message.text });
+    } else {
+      contents.push({ role, parts: [{ text: message.text }] });
+    }
+  }
+  return contents;
+}
+
+/**
+ * A General Chat conversation. Every reply is generated from the conversation so far:
+ * recent turns verbatim, older ones as a summary (or dropped if summarizing fails).
+ * Messages can be edited, which discards everything after them and regenerates.
+ */
+export class ChatSession {
+  private messages: ChatMessage[];
+  private summary: ConversationSummary | null;
+
+  constructor(state: Partial<ChatSessionState> = {}) {
+    this.messages = state.messages ? [...state.messages] : [];
+    this.summary = state.summary || null;
+  }
+
+  getMessages(): ChatMessage[] {
+    return this.messages;
+  }
+
+  getState(): ChatSessionState {
+    return { messages: this.messages, summary: this.summary };
+  }
+
+  /**
+   * Number of earlier messages the model only sees through the summary.
+   */
+  getSummarizedCount(): number {
+    return this.summary?.messageCount || 0;
+  }
+
+  /**
+   * Sends a user message and streams the reply. `onUpdate` receives the whole
+   * conversation after every change. Aborting `signal` keeps the reply so far.
+   */
+  async send(text: string, onUpdate: MessagesListener, signal?: AbortSignal): Promise<ChatMessage[]> {
+    this.setMessages([...this.messages, { id: newMessageId('user'), sender: 'user', text, timestamp: new Date() }], onUpdate);
+    return this.reply(onUpdate, signal);
+  }
+
+  /**
+   * Replaces the text of a user message, drops every message after it and
+   * generates a new reply from that point.
+   */
+  async edit(messageId: string, text: string, onUpdate: MessagesListener, signal?: AbortSignal): Promise<ChatMessage[]> {
+    const index = this.messages.findIndex((message) => message.id === messageId && message.sender === 'user');
+    if (index === -1) {
+      throw new Error('Only your own messages can be edited.');
+    }
+    const edited: ChatMessage = { ...this.messages[index], text, timestamp: new Date() };
+    this.setMessages([...this.messages.slice(0, index), edited], onUpdate);
+    return this.reply(onUpdate, signal);
+  }
+
+  /**
+   * Generates the last reply again, or answers the last user message if its reply failed.
+   */
+  async regenerate(onUpdate: MessagesListener, signal?: AbortSignal): Promise<ChatMessage[]> {
+    const last = this.messages[this.messages.length - 1];
+    if (!last) {
+      throw new Error('There is nothing to regenerate yet.');
+    }
+    if (last.sender === 'model') {
+      this.setMessages(this.messages.slice(0, -1), onUpdate);
+    }
+    return this.reply(onUpdate, signal);
+  }
+
+  private setMessages(messages: ChatMessage[], onUpdate: MessagesListener) {
+    this.messages = messages;
+    // An edit inside the summarized part makes the summary stale
+    if (this.summary && this.summary.messageCount >= messages.length) {
+      this.summary = null;
+    }
+    onUpdate(this.messages);
+  }
+
+  private async reply(onUpdate: MessagesListener, signal?: AbortSignal): Promise<ChatMessage[]> {
+    const history = this.messages;
+    const { contents, systemInstruction } = await this.buildContext(history, signal);
+    const reply: ChatMessage = { id: newMessageId('model'), sender: 'model', text: '', timestamp: new Date() };
+    let partialText = '';
+
+    try {
+      const text = await streamChatReply(contents, systemInstruction, (textSoFar) => {
+        partialText = textSoFar;
+        this.messages = [...history, { ...reply, text: textSoFar }];
+        onUpdate(this.messages);
+      }, signal);
+      this.setMessages([...history, { ...reply, text, timestamp: new Date() }], onUpdate);
+      return this.messages;
+    } catch (error) {
+      if (isCancellation(error) && partialText.trim()) {
+        // A stopped reply is kept as far as it got; `regenerate` can replace it
+        this.setMessages([...history, { ...reply, text: partialText, timestamp: new Date() }], onUpdate);
+      } else {
+        // Keep the user message so it can be retried with `regenerate`
+        this.setMessages(history, onUpdate);
+      }
+      throw error;
+    }
+  }
+
+  private async buildContext(history: ChatMessage[], signal?: AbortSignal): Promise<{ contents: Content[]; systemInstruction?: string }> {
+    const start = verbatimStart(history, CONTEXT_CHAR_BUDGET);
+    if (start === 0) {
+      return { contents: toContents(history) };
+    }
+
+    if (!this.summary || this.summary.messageCount < start) {
+      // Summarize down to half the budget so the next few turns need no new summary
+      const summarizeUntil = Math.max(start, verbatimStart(history, CONTEXT_CHAR_BUDGET / 2));
+      const from = this.summary?.messageCount || 0;
+      try {
+        const text = await summarizeConversation(this.summary?.text || null, history.slice(from, summarizeUntil), signal);
+        this.summary = { text, messageCount: summarizeUntil };
+      } catch (error) {
+        if (isCancellation(error)) {
+          throw error;
+        }
+        console.error('Could not summarize earlier messages, dropping them instead:', error);
+        return {
+          contents: toContents(history.slice(start)),
+          systemInstruction: 'Earlier messages in this conversation were omitted.',
+        };
+      }
+    }
+
+    return {
+      contents: toContents(history.slice(this.summary.messageCount)),
+      systemInstruction: `Summary of the earlier part of this conversation:\n${this.summary.text}`,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { Citation, GroundingChunk, GroundingSource, GroundingSupport } from "../types";
+import { normalizePlaceName } from "./placeParser";
+
+const SNIPPET_LENGTH = 160;
+
+function truncate(text: string, length: number): string {
+  const clean = text.trim().replace(/\s+/g, ' ');
+  return clean.length > length ? `${clean.slice(0, length - 1)}…` : clean;
+}
+
+// Supported segments are raw markdown; tooltips show them as plain text
+function stripMarkdown(text: string): string {
+  return text.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '').replace(/[*_`#>]/g, '');
+}
+
+/**
+ * Converts a UTF-8 byte offset (as used by grounding supports) into a string index.
+ */
+function charIndexAtByte(text: string, byteOffset: number): number {
+  let bytes = 0;
+  let index = 0;
+  for (const char of text) {
+    if (bytes >= byteOffset) break;
+    const codePoint = char.codePointAt(0)!;
+    bytes += codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+    index += char.length;
+  }
+  return index;
+}
+
+function chunkSource(chunk: GroundingChunk): Omit<GroundingSource, 'number'> | null {
+  if (chunk.maps?.uri) {
+    const review = chunk.maps.placeAnswerSources?.reviewSnippets?.find((snippet) => snippet.text || snippet.title);
+    return {
+      kind: 'maps',
+      uri: chunk.maps.uri,
+      title: chunk.maps.title || chunk.maps.uri,
+      snippet: review ? truncate(review.text || review.title || '', SNIPPET_LENGTH) : null,
+    };
+  }
+  if (chunk.web?.uri) {
+    return { kind: 'web', uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri, snippet: null };
+  }
+  return null;
+}
+
+/**
+ * Turns grounding metadata into a deduplicated, numbered source list and citation
+ * markers for `displayText`.
+ *
+ * Supports are located by their byte offsets in `fullText` (the raw response). The
+ * displayed text may differ from it (the places JSON block is removed), so each
+ * supported sentence is then found in `displayText` by content, in order. Sentences
+ * that are not displayed get no marker. Sources are numbered in order of first
+ * citation; uncited sources follow.
+ */
+export function buildCitations(
+  fullText: string,
+  displayText: string,
+  chunks: GroundingChunk[],
+  supports: GroundingSupport[],
+): { sources: GroundingSource[]; citations: Citation[] } {
+  const sources: GroundingSource[] = [];
+  const sourceByKey = new Map<string, GroundingSource>();
+  const chunkSources = chunks.map(chunkSource);
+
+  const numberForChunk = (chunkIndex: number): number | null => {
+    const source = chunkSources[chunkIndex];
+    if (!source) return null;
+    const key = source.uri.replace(/\/$/, '').toLowerCase();
+    let numbered = sourceByKey.get(key);
+    if (!numbered) {
+      numbered = { ...source, number: sources.length + 1 };
+      sources.push(numbered);
+      sourceByKey.set(key, numbered);
+    }
+    return numbered.number;
+  };
+
+  const citationsByOffset = new Map<number, Citation>();
+  const ordered = [...supports].sort((a, b) => (a.segment?.startIndex ?? 0) - (b.segment?.startIndex ?? 0));
+  let cursor = 0;
+  for (const support of ordered) {
+    const segment = support.segment;
+    if (!segment || !support.groundingChunkIndices?.length) continue;
+    const start = charIndexAtByte(fullText, segment.startIndex ?? 0);
+    const end = segment.endIndex !== undefined ? charIndexAtByte(fullText, segment.endIndex) : fullText.length;
+    const text = (segment.text ?? fullText.slice(start, end)).trim();
+    if (!text) continue;
+
+    let found = displayText.indexOf(text, cursor);
+    if (found === -1) found = displayText.indexOf(text);
+    if (found === -1) continue;
+    const offset = found + text.length;
+    cursor = offset;
+
+    const numbers = support.groundingChunkIndices
+      .map(numberForChunk)
+      .filter((number): number is number => number !== null);
+    if (numbers.length === 0) continue;
+
+    // Sources without a snippet of their own show the first sentence they support
+    numbers.forEach((number) => {
+      const source = sources[number - 1];
+      if (!source.snippet) source.snippet = truncate(stripMarkdown(text), SNIPPET_LENGTH);
+    });
+
+    const existing = citationsByOffset.get(offset);
+    citationsByOffset.set(offset, {
+      offset,
+      text,
+      sourceNumbers: Array.from(new Set([...(existing?.sourceNumbers || []), ...numbers])).sort((a, b) => a - b),
+    });
+  }
+
+  chunks.forEach((_, index) => numberForChunk(index));
+
+  return {
+    sources,
+    citations: Array.from(citationsByOffset.values()).sort((a, b) => a.offset - b.offset),
+  };
+}
+
+/**
+ * The citations whose sentence mentions the given place, for markers on its card.
+ */
+export function citationsForPlace(placeName: string, citations: Citation[]): Citation[] {
+  const name = normalizePlaceName(placeName);
+  return name ? citations.filter((citation) => normalizePlaceName(citation.text).includes(name)) : [];
+}
@@ -0,0 +1,146 @@
+import { ChatMessage, Conversation, ConversationKind, ConversationSummary } from "../types";
+import { getAllByIndex, getOne, put, remove, generateId } from "./db";
+
+const UNTITLED = 'New conversation';
+const TITLE_LENGTH = 60;
+const SNIPPET_CONTEXT = 40;
+
+export interface ConversationMatch {
+  conversation: Conversation;
+  snippet: string | null; // Message text around the first hit, if the hit is not in the title
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+/**
+ * Subscribes to any change in saved conversations. Returns an unsubscribe function.
+ */
+export function subscribeConversations(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * The title shown for a conversation: its own title, else the start of its first user message.
+ */
+export function conversationTitle(conversation: Conversation): string {
+  if (conversation.title) {
+    return conversation.title;
+  }
+  const firstMessage = conversation.messages.find((message) => message.sender === 'user')?.text.trim().replace(/\s+/g, ' ');
+  if (!firstMessage) {
+    return UNTITLED;
+  }
+  return firstMessage.length > TITLE_LENGTH ? `${firstMessage.slice(0, TITLE_LENGTH - 1)}…` : firstMessage;
+}
+
+/** Pinned first, then most recently updated. */
+export async function getConversations(kind: ConversationKind): Promise<Conversation[]> {
+  const conversations = await getAllByIndex<Conversation>('conversations', 'kind', kind);
+  return conversations.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+}
+
+export function getConversation(id: string): Promise<Conversation | undefined> {
+  return getOne<Conversation>('conversations', id);
+}
+
+export async function createConversation(kind: ConversationKind, messages: ChatMessage[] = []): Promise<Conversation> {
+  const now = Date.now();
+  const conversation: Conversation = {
+    id: generateId(kind === 'live' ? 'live' : 'chat'),
+    kind,
+    title: '',
+    pinned: false,
+    messages,
+    summary: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await put('conversations', conversation);
+  notify();
+  return conversation;
+}
+
+/**
+ * Stores the current messages (and chat summary) of a conversation.
+ */
+export async function saveConversationMessages(
+  id: string,
+  messages: ChatMessage[],
+  summary: ConversationSummary | null = null,
+): Promise<void> {
+  const conversation = await getConversation(id);
+  if (!conversation) {
+    throw new Error('This conversation no longer exists.');
+  }
+  await put('conversations', { ...conversation, messages, summary, updatedAt: Date.now() });
+  notify();
+}
+
+export async function renameConversation(id: string, title: string): Promise<void> {
+  const conversation = await getConversation(id);
+  if (!conversation) return;
+  await put('conversations', { ...conversation, title: title.trim() });
+  notify();
+}
+
+export async function setConversationPinned(id: string, pinned: boolean): Promise<void> {
+  const conversation = await getConversation(id);
+  if (!conversation) return;
+  await put('conversations', { ...conversation, pinned });
+  notify();
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await remove('conversations', id);
+  notify();
+}
+
+function normalizeForSearch(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Full-text search over titles and messages. Every word of the query must appear
+ * somewhere in the conversation (case and accent insensitive).
+ */
+export function searchConversations(conversations: Conversation[], query: string): ConversationMatch[] {
+  const terms = normalizeForSearch(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return conversations.map((conversation) => ({ conversation, snippet: null }));
+  }
+
+  const matches: ConversationMatch[] = [];
+  for (const conversation of conversations) {
+    const title = normalizeForSearch(conversationTitle(conversation));
+    const texts = conversation.messages.map((message) => normalizeForSearch(message.text));
+    const everything = [title, ...texts].join('\n');
+    if (!terms.every((term) => everything.includes(term))) {
+      continue;
+    }
+    // Show where the first term occurs in a message, unless the title already explains the hit
+    let snippet: string | null = null;
+    if (!title.includes(terms[0])) {
+      const messageIndex = texts.findIndex((text) => text.includes(terms[0]));
+      if (messageIndex !== -1) {
+        // Accent folding keeps indices aligned for precomposed text, which is good enough here
+        snippet = snippetAround(conversation.messages[messageIndex].text, texts[messageIndex].indexOf(terms[0]), terms[0].length);
+      }
+    }
+    matches.push({ conversation, snippet });
+  }
+  return matches;
+}
@@ -0,0 +1,108 @@
+/**
+ * Minimal promise wrapper around the app's IndexedDB database.
+ *
+ * Every object store lives in the same database. To add a store, append it to
+ * `STORES` and bump `DB_VERSION`; the upgrade handler creates any store that is missing.
+ */
+
+const DB_NAME = 'gemini-local-guide';
+const DB_VERSION = 5;
+
+interface StoreDefinition {
+  name: string;
+  keyPath: string;
+  indexes?: { name: string; keyPath: string; unique?: boolean }[];
+}
+
+const STORES: StoreDefinition[] = [
+  { name: 'savedLists', keyPath: 'id' },
+  { name: 'savedPlaces', keyPath: 'id', indexes: [{ name: 'listId', keyPath: 'listId' }] },
+  { name: 'searchHistory', keyPath: 'id' },
+  { name: 'conversations', keyPath: 'id', indexes: [{ name: 'kind', keyPath: 'kind' }] },
+  { name: 'recommendationCache', keyPath: 'key' },
+  { name: 'settings', keyPath: 'id' },
+  { name: 'livePersonas', keyPath: 'id' },
+];
+
+export type StoreName = 'savedLists' | 'savedPlaces' | 'searchHistory' | 'conversations' | 'recommendationCache' | 'settings' | 'livePersonas';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (db.objectStoreNames.contains(store.name)) continue;
+          const objectStore = db.createObjectStore(store.name, { keyPath: store.keyPath });
+          store.indexes?.forEach((index) => objectStore.createIndex(index.name, index.keyPath, { unique: !!index.unique }));
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  completed.catch(() => undefined); // A failed request rejects below; avoid a second, unhandled rejection
+  const result = await requestToPromise(run(transaction.objectStore(storeName)));
+  // Writes are only durable once the whole transaction has committed
+  await completed;
+  return result;
+}
+
+export function getAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore(storeName, 'readonly', (store) => store.getAll() as IDBRequest<T[]>);
+}
+
+export function getAllByIndex<T>(storeName: StoreName, indexName: string, value: IDBValidKey): Promise<T[]> {
+  return withStore(storeName, 'readonly', (store) => store.index(indexName).getAll(value) as IDBRequest<T[]>);
+}
+
+export async function getOne<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', (store) => store.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function put<T>(storeName: StoreName, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.put(value));
+}
+
+export async function remove(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.delete(key));
+}
+
+/**
+ * Generates a reasonably unique id for locally stored records.
+ */
+export function generateId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,173 @@
+import { FinishReason, GenerateContentResponse } from "@google/genai";
+
+export type ServiceErrorKind =
+  | 'invalid-key' // The API key is missing, invalid or not allowed to use the model
+  | 'rate-limit' // Too many requests, or the quota is used up
+  | 'safety' // The request or the answer was blocked by safety filters
+  | 'empty-response' // The model answered with nothing
+  | 'network' // The request did not reach the server, or the connection dropped
+  | 'timeout'
+  | 'unavailable' // The model is overloaded or down
+  | 'cancelled' // Stopped through an AbortSignal; not a failure to show
+  | 'unknown';
+
+const RETRYABLE_KINDS = new Set<ServiceErrorKind>(['rate-limit', 'network', 'timeout', 'unavailable']);
+
+const SAFETY_FINISH_REASONS = new Set<FinishReason | undefined>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+]);
+
+/**
+ * A failed model call, classified so the UI can explain it and offer a fitting way to
+ * recover. The message keeps the "Failed to ...: <reason>" wording of the services.
+ */
+export class ServiceError extends Error {
+  constructor(
+    readonly kind: ServiceErrorKind,
+    message: string,
+    readonly retryAfterMs: number | null = null, // How long the API asked us to wait, if it did
+  ) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+}
+
+function statusOf(error: unknown): number | null {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : null;
+}
+
+/**
+ * Sorts any error thrown by a provider, the SDK, fetch or the proxy server into a kind,
+ * from its HTTP status where there is one and its message otherwise.
+ */
+export function classifyError(error: unknown): ServiceErrorKind {
+  if (error instanceof ServiceError) {
+    return error.kind;
+  }
+  const status = statusOf(error);
+  const name = (error as Error | null)?.name || '';
+  const message = String((error as Error | null)?.message || error || '');
+
+  if (name === 'AbortError') {
+    return 'cancelled';
+  }
+  if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid|API key expired|PERMISSION_DENIED/i.test(message)) {
+    return 'invalid-key';
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i.test(message)) {
+    return 'rate-limit';
+  }
+  if (status === 408 || status === 504 || name === 'TimeoutError' || /DEADLINE_EXCEEDED|timed out|timeout/i.test(message)) {
+    return 'timeout';
+  }
+  if (status === 500 || status === 502 || status === 503 || /UNAVAILABLE|overloaded|INTERNAL/.test(message)) {
+    return 'unavailable';
+  }
+  if (/failed to fetch|fetch failed|network ?error|load failed|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up/i.test(message)) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+/**
+ * Whether the error only means the request was stopped on purpose, e.g. by a Stop
+ * button or a component that went away.
+ */
+export function isCancellation(error: unknown): boolean {
+  return classifyError(error) === 'cancelled';
+}
+
+// The API puts a RetryInfo detail such as "retryDelay": "23s" in rate-limit errors
+function retryDelayOf(error: unknown): number | null {
+  if (error instanceof ServiceError) {
+    return error.retryAfterMs;
+  }
+  const seconds = String((error as Error | null)?.message || '').match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/)?.[1];
+  return seconds ? Math.round(parseFloat(seconds) * 1000) : null;
+}
+
+/**
+ * Wraps an error from a service call as a `ServiceError` with the given prefix, e.g.
+ * "Failed to analyze image".
+ */
+export function toServiceError(error: unknown, prefix: string): ServiceError {
+  const message = (error as Error | null)?.message || String(error);
+  return new ServiceError(classifyError(error), `${prefix}: ${message}`, retryDelayOf(error));
+}
+
+/**
+ * Throws when the model gave no usable answer: a blocked prompt, a reply stopped by
+ * safety filters before any text, or an empty reply.
+ */
+export function assertAnswered(text: string, finishReason?: FinishReason, blockReason?: string): void {
+  if (blockReason) {
+    throw new ServiceError('safety', `The request was blocked by safety filters (${blockReason}).`);
+  }
+  if (!text.trim()) {
+    if (SAFETY_FINISH_REASONS.has(finishReason)) {
+      throw new ServiceError('safety', `The answer was blocked by safety filters (${finishReason}).`);
+    }
+    throw new ServiceError('empty-response', `The model returned an empty response${finishReason && finishReason !== FinishReason.STOP ? ` (${finishReason})` : ''}.`);
+  }
+}
+
+export function assertResponseAnswered(response: GenerateContentResponse): void {
+  assertAnswered(response.text || '', response.candidates?.[0]?.finishReason, response.promptFeedback?.blockReason);
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number; // Also the longest delay the API may ask for before we give up
+  signal?: AbortSignal; // Stops waiting for the next attempt
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `run`, retrying transient failures (rate limits, network errors, timeouts and
+ * unavailable models) with exponential backoff and jitter. A delay requested by the API
+ * is honoured, unless it is longer than `maxDelayMs`, e.g. for a used-up daily quota.
+ */
+export async function withRetry<T>(run: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 3, baseDelayMs = 500, maxDelayMs = 8000, signal } = options;
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await run();
+    } catch (error) {
+      const kind = classifyError(error);
+      const requested = retryDelayOf(error);
+      if (!RETRYABLE_KINDS.has(kind) || attempt >= retries || (requested !== null && requested > maxDelayMs)) {
+        throw error;
+      }
+      // Half of the backoff is fixed and half random, so clients that failed together spread out
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delay = requested ?? backoff / 2 + Math.random() * (backoff / 2);
+      console.warn(`Retrying in ${Math.round(delay)} ms after a failed request (${kind}), retry ${attempt + 1} of ${retries}.`);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Fixture, FixtureStore, FINGERPRINT_PATTERN } from "./fixtures";
+
+/**
+ * Node-side fixture store: one pretty-printed JSON file per fingerprint in a directory.
+ * Used by the dev server endpoint and by scripts or tests that replay fixtures.
+ */
+export class FileFixtureStore implements FixtureStore {
+  constructor(private readonly directory: string) {}
+
+  private fileFor(fingerprint: string): string {
+    if (!FINGERPRINT_PATTERN.test(fingerprint)) {
+      throw new Error(`Invalid fixture fingerprint "${fingerprint}".`);
+    }
+    return path.join(this.directory, `${fingerprint}.json`);
+  }
+
+  async read(fingerprint: string): Promise<Fixture | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(fingerprint), 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  async write(fixture: Fixture): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.fileFor(fixture.fingerprint), JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+  }
+}
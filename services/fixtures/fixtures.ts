@@ -0,0 +1,121 @@
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+
+export interface RecordedResponse {
+  candidates?: GenerateContentResponse['candidates'];
+  usageMetadata?: GenerateContentResponse['usageMetadata'];
+  promptFeedback?: GenerateContentResponse['promptFeedback'];
+  modelVersion?: string;
+  responseId?: string;
+}
+
+/**
+ * A recorded `generateContent` call (`response`) or `generateContentStream` call (`chunks`).
+ * Fixtures are stored one per file, named by the request fingerprint, so the same
+ * request always maps to the same file.
+ */
+export interface Fixture {
+  fingerprint: string;
+  recordedAt: string;
+  provider: string;
+  request: {
+    model: string;
+    contents: unknown;
+    config?: unknown;
+    stream?: boolean;
+  };
+  response?: RecordedResponse;
+  chunks?: RecordedResponse[];
+}
+
+export interface FixtureStore {
+  read(fingerprint: string): Promise<Fixture | null>;
+  write(fixture: Fixture): Promise<void>;
+}
+
+export const FINGERPRINT_PATTERN = /^[0-9a-f]{64}$/;
+
+// Config fields that do not change what the model returns
+const TRANSIENT_CONFIG_KEYS = new Set(['abortSignal', 'httpOptions']);
+
+// Inline images are kept out of fixture files; the fingerprint still covers their bytes
+const MAX_STORED_INLINE_DATA = 256;
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function requestIdentity(params: GenerateContentParameters, stream: boolean): Fixture['request'] {
+  const entries = Object.entries(params.config || {}).filter(([key, value]) => !TRANSIENT_CONFIG_KEYS.has(key) && value !== undefined);
+  // A config holding only an abort signal is the same request as no config
+  const config = entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  return { model: params.model, contents: params.contents, config, stream: stream || undefined };
+}
+
+/**
+ * SHA-256 of the model, contents and config (key order independent), as hex.
+ * Streamed and non-streamed calls of the same request get different fingerprints.
+ */
+export async function fingerprintRequest(params: GenerateContentParameters, stream = false): Promise<string> {
+  const bytes = new TextEncoder().encode(stableStringify(requestIdentity(params, stream)));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function stripInlineData(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripInlineData);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([key, entry]) => {
+      if (key === 'data' && typeof entry === 'string' && entry.length > MAX_STORED_INLINE_DATA) {
+        return [key, `<${entry.length} base64 characters omitted>`];
+      }
+      return [key, stripInlineData(entry)];
+    }));
+  }
+  return value;
+}
+
+function recordResponse(response: GenerateContentResponse): RecordedResponse {
+  return {
+    candidates: response.candidates,
+    usageMetadata: response.usageMetadata,
+    promptFeedback: response.promptFeedback,
+    modelVersion: response.modelVersion,
+    responseId: response.responseId,
+  };
+}
+
+/**
+ * Builds the fixture for a call. Pass the single response of `generateContent`, or
+ * every chunk of `generateContentStream` in order.
+ */
+export function createFixture(
+  fingerprint: string,
+  provider: string,
+  params: GenerateContentParameters,
+  result: GenerateContentResponse | GenerateContentResponse[],
+): Fixture {
+  const stream = Array.isArray(result);
+  return {
+    fingerprint,
+    recordedAt: new Date().toISOString(),
+    provider,
+    request: stripInlineData(requestIdentity(params, stream)) as Fixture['request'],
+    ...(stream ? { chunks: result.map(recordResponse) } : { response: recordResponse(result) }),
+  };
+}
+
+/**
+ * Rebuilds an SDK response object (with its `text` getter) from a recorded response.
+ */
+export function toGenerateContentResponse(recorded: RecordedResponse): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), JSON.parse(JSON.stringify(recorded)));
+}
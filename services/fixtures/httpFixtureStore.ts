@@ -0,0 +1,31 @@
+import { Fixture, FixtureStore } from "./fixtures";
+
+/**
+ * Browser-side fixture store that talks to the dev server's `/__fixtures` endpoint,
+ * which reads and writes the files in the fixtures directory (see vite.fixtures.ts).
+ */
+export class HttpFixtureStore implements FixtureStore {
+  constructor(private readonly baseUrl: string = '/__fixtures') {}
+
+  async read(fingerprint: string): Promise<Fixture | null> {
+    const response = await fetch(`${this.baseUrl}/${fingerprint}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Could not read fixture ${fingerprint}: HTTP ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async write(fixture: Fixture): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/${fixture.fingerprint}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fixture, null, 2),
+    });
+    if (!response.ok) {
+      throw new Error(`Could not write fixture ${fixture.fingerprint}: HTTP ${response.status}`);
+    }
+  }
+}
@@ -1,10 +1,56 @@
 
-import { GoogleGenAI, GenerateContentResponse, LiveServerMessage, Modality, Blob, FunctionDeclaration, Type } from "@google/genai";
-import { UserLocation, GroundingChunk, ImageDataPart } from "../types";
+import { Content, GenerateContentParameters, GenerateContentResponse, FinishReason, LiveCallbacks, LiveConnectConfig, LiveServerMessage, LiveServerToolCall, Modality, Blob, FunctionCall, FunctionDeclaration, FunctionResponse, Type } from "@google/genai";
+import { UserLocation, GroundingChunk, GroundingSupport, GroundingSource, Citation, Itinerary, ImageDataPart, ChatMessage, Place, PlaceFilters, GroundingMode, GroundingTool, Amenity, PriceRange } from "../types";
+import { PLACES_JSON_INSTRUCTION, parsePlacesResponse, parsePartialPlacesResponse } from "./placeParser";
+import { buildCitations } from "./citations";
+import { ITINERARY_RESPONSE_SCHEMA, ItineraryOptions, formatTime, parseItineraryResponse } from "./itinerary";
+import { resolveGroundingTool, buildGroundingConfig } from "./groundingRouter";
+import { getCachedRecommendations, cacheRecommendations, recommendationCacheKey } from "./recommendationCache";
+import { getModelProvider, usesProxyServer } from "./providers";
+import * as proxy from "./proxy/proxyClient";
+import { LiveConnectRequest } from "./proxy/protocol";
+import { MODELS, COMPLEX_REASONING_THINKING_BUDGET } from "./models";
+import { DEFAULT_LIVE_SETTINGS, liveLanguageName } from "./liveSettings";
+import { ServiceError, assertAnswered, assertResponseAnswered, classifyError, isCancellation, toServiceError, withRetry } from "./errors";
 
 export interface RecommendationResult {
   text: string;
-  groundingUrls: string[];
+  places: Place[];
+  sources: GroundingSource[]; // Deduplicated and numbered
+  citations: Citation[]; // Markers for `text`, referring to `sources` by number
+  groundingMode: GroundingMode; // What was requested
+  groundingTool: GroundingTool; // What was actually sent to the model
+  cachedAt: number | null; // When the result was cached, if it came from the recommendation cache
+}
+
+/** A place search the Live model ran by voice, as it progresses. */
+export interface LivePlaceSearch {
+  id: string; // The function call id
+  query: string;
+  near: string | null; // The area the user named, when not searching near them
+  status: 'searching' | 'done' | 'failed' | 'cancelled';
+  location: UserLocation | null; // Where the search was made, once known
+  result: RecommendationResult | null;
+  error: string | null;
+}
+
+export interface LivePlaceSearchHandler {
+  getLocation: () => Promise<UserLocation | null>; // The user's location, or null when it is unknown
+  onUpdate: (search: LivePlaceSearch) => void;
+}
+
+export interface LiveSessionOptions {
+  systemInstruction?: string;
+  voiceName?: string; // A prebuilt voice; Zephyr by default
+  languageCode?: string; // The language to speak, e.g. 'de-DE'; by default the user's
+  placeSearch?: LivePlaceSearchHandler; // Gives the model the place-search function
+  signal?: AbortSignal; // Closes the session, or stops it from opening
+}
+
+export interface ComparisonVerdict {
+  text: string;
+  sources: GroundingSource[];
+  citations: Citation[];
 }
 
 // Utility functions for audio encoding/decoding (required for Live API)
@@ -58,114 +104,435 @@ function createBlob(data: Float32Array): Blob {
   };
 }
 
+function buildPlacesPrompt(query: string, userLocation: UserLocation, filters: PlaceFilters): string {
+  const locationPhrase = userLocation.source === 'manual' && userLocation.label
+    ? `near ${userLocation.label}`
+    : 'based on my current location';
+  let modelPrompt = `Find the top 10 most recommended and commented ${query}, ${locationPhrase}. For each, provide its name, a brief summary of why it's popular, and its general type (e.g., 'Italian Restaurant', 'Boutique Hotel'). Present this as a numbered list.`;
+
+  // Construct a more specific prompt with filters
+  if (filters.priceRange) {
+    modelPrompt += ` With a price range of ${filters.priceRange}.`;
+  }
+  if (filters.cuisineType) {
+    modelPrompt += ` Specializing in ${filters.cuisineType} cuisine.`;
+  }
+  if (filters.amenities.length > 0) {
+    modelPrompt += ` Offering amenities like: ${filters.amenities.join(', ')}.`;
+  }
+
+  // Add request for rating to the prompt
+  modelPrompt += ` If available, include its average star rating or a popularity score (e.g., '4.5 stars' or 'Score: 8/10').`;
+
+  // Ask for a machine-readable copy of the list so the UI does not scrape the markdown
+  modelPrompt += ` ${PLACES_JSON_INSTRUCTION}`;
+  return modelPrompt;
+}
+
+function buildPlacesRequest(
+  query: string,
+  userLocation: UserLocation,
+  filters: PlaceFilters,
+  groundingMode: GroundingMode,
+  signal?: AbortSignal,
+): { params: GenerateContentParameters; groundingTool: GroundingTool } {
+  // Route on the user's own words, not the prompt template around them
+  const groundingTool = resolveGroundingTool(groundingMode, query);
+  const { tools, toolConfig } = buildGroundingConfig(groundingTool, userLocation);
+  return {
+    groundingTool,
+    params: {
+      model: MODELS.placesGrounding,
+      contents: buildPlacesPrompt(query, userLocation, filters),
+      config: {
+        tools: tools,
+        toolConfig: toolConfig,
+        abortSignal: signal,
+      },
+    },
+  };
+}
+
+// Parses the places and positions citation markers in the prose that is shown
+function toRecommendationResult(
+  fullText: string,
+  groundingChunks: GroundingChunk[],
+  groundingSupports: GroundingSupport[],
+  groundingMode: GroundingMode,
+  groundingTool: GroundingTool,
+): RecommendationResult {
+  const { text, places } = parsePlacesResponse(fullText, groundingChunks);
+  const { sources, citations } = buildCitations(fullText, text, groundingChunks, groundingSupports);
+  return { text, places, sources, citations, groundingMode, groundingTool, cachedAt: null };
+}
+
+// A request stopped on purpose is not worth an error in the console
+function logServiceError(context: string, error: unknown): void {
+  if (!isCancellation(error)) {
+    console.error(context, error);
+  }
+}
+
+function toRecommendationError(error: unknown): ServiceError {
+  logServiceError("Error calling Gemini API:", error);
+  if (error instanceof Error) {
+    if (error.message.includes("Requested entity was not found.")) {
+      return new ServiceError(classifyError(error), "API call failed, please check your query or API key status. " + error.message);
+    }
+  }
+  return toServiceError(error, "Failed to get recommendations");
+}
+
+/**
+ * Serves a search from the recommendation cache, unless `forceRefresh` is set, and
+ * caches fresh results. The cache is best-effort: its failures never fail the search.
+ * A search aborted while the cache was read rejects, like one aborted mid-request.
+ */
+async function withRecommendationCache(
+  key: string,
+  forceRefresh: boolean,
+  fetchFresh: () => Promise<RecommendationResult>,
+  signal?: AbortSignal,
+): Promise<RecommendationResult> {
+  if (!forceRefresh) {
+    let cached: RecommendationResult | null = null;
+    try {
+      cached = await getCachedRecommendations(key);
+    } catch (error) {
+      console.error("Failed to read the recommendation cache:", error);
+    }
+    signal?.throwIfAborted();
+    if (cached) {
+      return cached;
+    }
+  }
+  const result = await fetchFresh();
+  cacheRecommendations(key, result).catch((error) => console.error("Failed to cache recommendations:", error));
+  return result;
+}
+
 /**
- * Gets recommendations using Google Maps or Google Search grounding based on the prompt.
+ * Gets recommendations using Google Maps and/or Google Search grounding.
+ * The tool is chosen by `groundingMode`; 'auto' classifies the query.
  * Incorporates advanced filters for location-based searches.
+ * Repeated searches are answered from the cache unless `forceRefresh` is set.
  */
 export async function getPlacesRecommendations(
-  prompt: string,
+  query: string,
   userLocation: UserLocation,
-  priceRange: string = '',
-  cuisineType: string = '',
-  amenities: string[] = [],
+  filters: PlaceFilters,
+  groundingMode: GroundingMode = 'auto',
+  forceRefresh: boolean = false,
+  signal?: AbortSignal,
 ): Promise<RecommendationResult> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  let modelPrompt = prompt;
-  let tools: any[] = [];
-  let toolConfig: any = {};
+  const key = recommendationCacheKey(query, filters, groundingMode, userLocation);
+  return withRecommendationCache(key, forceRefresh, () => requestPlacesRecommendations(query, userLocation, filters, groundingMode, signal), signal);
+}
 
-  // Construct a more specific prompt with filters
-  if (priceRange) {
-    modelPrompt += ` With a price range of ${priceRange}.`;
+async function requestPlacesRecommendations(
+  query: string,
+  userLocation: UserLocation,
+  filters: PlaceFilters,
+  groundingMode: GroundingMode,
+  signal?: AbortSignal,
+): Promise<RecommendationResult> {
+  if (usesProxyServer()) {
+    return proxy.streamPlacesRecommendations(query, userLocation, filters, groundingMode, () => {}, signal);
   }
-  if (cuisineType) {
-    modelPrompt += ` Specializing in ${cuisineType} cuisine.`;
+  const provider = getModelProvider();
+  const { params, groundingTool } = buildPlacesRequest(query, userLocation, filters, groundingMode, signal);
+
+  try {
+    const response: GenerateContentResponse = await withRetry(() => provider.generateContent(params), { signal });
+    assertResponseAnswered(response);
+
+    // FIX: The `groundingChunks` type from `@google/genai` is compatible after modifying local `GroundingChunk` interface.
+    // Ensure the local `GroundingChunk` interface is aligned with the actual structure from `@google/genai`.
+    const groundingChunks: GroundingChunk[] =
+      response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    const groundingSupports: GroundingSupport[] =
+      response.candidates?.[0]?.groundingMetadata?.groundingSupports || [];
+
+    return toRecommendationResult(response.text || '', groundingChunks, groundingSupports, groundingMode, groundingTool);
+  } catch (error) {
+    throw toRecommendationError(error);
   }
-  if (amenities.length > 0) {
-    modelPrompt += ` Offering amenities like: ${amenities.join(', ')}.`;
+}
+
+/**
+ * Reads a streamed response, calling `onText` with the accumulated text after every
+ * chunk. Returns the full text and the grounding chunks and supports, which arrive with
+ * the last chunk. Throws a `ServiceError` when the stream ends without an answer, and
+ * stops reading once `signal` is aborted.
+ */
+async function readStream(
+  stream: AsyncGenerator<GenerateContentResponse>,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<{ text: string; groundingChunks: GroundingChunk[]; groundingSupports: GroundingSupport[] }> {
+  let text = '';
+  let groundingChunks: GroundingChunk[] = [];
+  let groundingSupports: GroundingSupport[] = [];
+  let finishReason: FinishReason | undefined;
+  let blockReason: string | undefined;
+  for await (const chunk of stream) {
+    signal?.throwIfAborted();
+    const chunkText = chunk.text;
+    if (chunkText) {
+      text += chunkText;
+      onText(text);
+    }
+    const metadata = chunk.candidates?.[0]?.groundingMetadata;
+    if (metadata?.groundingChunks?.length) {
+      groundingChunks = metadata.groundingChunks;
+    }
+    if (metadata?.groundingSupports?.length) {
+      groundingSupports = metadata.groundingSupports;
+    }
+    finishReason = chunk.candidates?.[0]?.finishReason || finishReason;
+    blockReason = chunk.promptFeedback?.blockReason || blockReason;
   }
+  assertAnswered(text, finishReason, blockReason);
+  return { text, groundingChunks, groundingSupports };
+}
 
-  // Add request for rating to the prompt
-  modelPrompt += ` If available, include its average star rating or a popularity score (e.g., '4.5 stars' or 'Score: 8/10').`;
+/**
+ * Streaming variant of `getPlacesRecommendations`. `onUpdate` receives the prose so far
+ * and every place whose entry is complete, so cards can be shown one by one; the
+ * resolved result has the final places matched against the grounding metadata.
+ * A cached result resolves at once, without updates.
+ */
+export async function streamPlacesRecommendations(
+  query: string,
+  userLocation: UserLocation,
+  filters: PlaceFilters,
+  groundingMode: GroundingMode,
+  onUpdate: (partial: { text: string; places: Place[] }) => void,
+  forceRefresh: boolean = false,
+  signal?: AbortSignal,
+): Promise<RecommendationResult> {
+  const key = recommendationCacheKey(query, filters, groundingMode, userLocation);
+  return withRecommendationCache(key, forceRefresh, () => requestPlacesRecommendationsStream(query, userLocation, filters, groundingMode, onUpdate, signal), signal);
+}
+
+async function requestPlacesRecommendationsStream(
+  query: string,
+  userLocation: UserLocation,
+  filters: PlaceFilters,
+  groundingMode: GroundingMode,
+  onUpdate: (partial: { text: string; places: Place[] }) => void,
+  signal?: AbortSignal,
+): Promise<RecommendationResult> {
+  if (usesProxyServer()) {
+    return proxy.streamPlacesRecommendations(query, userLocation, filters, groundingMode, onUpdate, signal);
+  }
+  const provider = getModelProvider();
+  const { params, groundingTool } = buildPlacesRequest(query, userLocation, filters, groundingMode, signal);
 
+  try {
+    // A retry streams the answer again from the start, replacing the partial one
+    const { text: fullText, groundingChunks, groundingSupports } = await withRetry(async () =>
+      readStream(await provider.generateContentStream(params), (textSoFar) => {
+        onUpdate(parsePartialPlacesResponse(textSoFar));
+      }, signal),
+      { signal },
+    );
 
-  // Simple heuristic to decide between Maps and Search
-  const isLocationQuery = /(restaurant|hotel|place|cafe|park|bar|store)s? near me|in my area|around me|in \w+/i.test(modelPrompt);
+    return toRecommendationResult(fullText, groundingChunks, groundingSupports, groundingMode, groundingTool);
+  } catch (error) {
+    throw toRecommendationError(error);
+  }
+}
 
-  if (isLocationQuery) {
-    tools.push({ googleMaps: {} });
-    toolConfig = {
-      retrievalConfig: {
-        latLng: {
-          latitude: userLocation.latitude,
-          longitude: userLocation.longitude,
-        },
-      },
-    };
-  } else {
-    // Default to Google Search for general information queries
-    tools.push({ googleSearch: {} });
+/**
+ * Resolves a free-text place name or address to coordinates using Google Maps grounding.
+ * Used as the search origin when device geolocation is unavailable.
+ */
+export async function resolveLocation(query: string, signal?: AbortSignal): Promise<UserLocation> {
+  if (usesProxyServer()) {
+    return proxy.resolveLocation(query, signal);
   }
+  const provider = getModelProvider();
+  const modelPrompt = `Find the geographic coordinates of this place or address: "${query}". Reply with only a fenced \`\`\`json code block containing an object with the keys "latitude" (number), "longitude" (number) and "label" (string, the place's name and formatted address). If the place cannot be found, use null for latitude and longitude.`;
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash", // Using flash for general text tasks with grounding
+    const response: GenerateContentResponse = await withRetry(() => provider.generateContent({
+      model: MODELS.placesGrounding,
       contents: modelPrompt,
       config: {
-        tools: tools,
-        toolConfig: toolConfig,
+        tools: [{ googleMaps: {} }],
+        abortSignal: signal,
       },
-    });
+    }), { signal });
+    assertResponseAnswered(response);
 
-    const text = response.text;
+    const text = response.text || '';
+    const json = text.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1] ?? text.match(/\{[\s\S]*\}/)?.[0];
+    const parsed = json ? JSON.parse(json) : null;
+    const latitude = Number(parsed?.latitude);
+    const longitude = Number(parsed?.longitude);
+    if (parsed?.latitude == null || parsed?.longitude == null || !Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new Error(`Could not find a location for "${query}".`);
+    }
+    return {
+      latitude,
+      longitude,
+      source: 'manual',
+      label: typeof parsed.label === 'string' && parsed.label.trim() ? parsed.label.trim() : query,
+    };
+  } catch (error) {
+    logServiceError("Error resolving location:", error);
+    throw toServiceError(error, "Failed to resolve location");
+  }
+}
 
-    // FIX: The `groundingChunks` type from `@google/genai` is compatible after modifying local `GroundingChunk` interface.
-    // Ensure the local `GroundingChunk` interface is aligned with the actual structure from `@google/genai`.
-    const groundingChunks: GroundingChunk[] | undefined =
-      response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-
-    const groundingUrls: string[] = [];
-    if (groundingChunks) {
-      for (const chunk of groundingChunks) {
-        if (chunk.maps?.uri) {
-          groundingUrls.push(chunk.maps.uri);
-        }
-        if (chunk.maps?.placeAnswerSources?.reviewSnippets) {
-          chunk.maps.placeAnswerSources.reviewSnippets.forEach((snippet) => {
-            // FIX: Changed from `snippet.uri` to `snippet.link` to match the updated GroundingChunk interface in types.ts.
-            if (snippet.link) {
-              groundingUrls.push(snippet.link);
-            }
-          });
-        }
-        if (chunk.web?.uri) {
-          groundingUrls.push(chunk.web.uri);
-        }
-      }
+const PLACE_SEARCH_FUNCTION: FunctionDeclaration = {
+  name: 'searchPlaces',
+  description: 'Searches Google Maps for places such as restaurants, cafés, shops or sights, near the user or in an area they name. The results are also shown to the user on screen.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      query: { type: Type.STRING, description: 'What to look for, e.g. "quiet café with Wi-Fi".' },
+      near: { type: Type.STRING, description: 'A city, neighbourhood or address to search in. Leave it out to search near the user.' },
+      priceRange: { type: Type.STRING, enum: ['$', '$$', '$$$', '$$$$'], description: 'Only when the user asked for a price level.' },
+      cuisineType: { type: Type.STRING, description: 'Only for places to eat, when the user asked for a cuisine.' },
+      amenities: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING, enum: ['Wi-Fi', 'Outdoor Seating', 'Pet-Friendly', 'Parking', 'Wheelchair Accessible'] },
+        description: 'Only amenities the user asked for.',
+      },
+    },
+    required: ['query'],
+  },
+};
+
+// How many results the model is given to read out; the screen shows all of them
+const SPOKEN_PLACE_COUNT = 3;
+
+function stringArg(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function placeSearchFilters(args: Record<string, unknown>): PlaceFilters {
+  const priceRange = stringArg(args.priceRange);
+  return {
+    priceRange: ['$', '$$', '$$$', '$$$$'].includes(priceRange) ? priceRange as PriceRange : '',
+    cuisineType: stringArg(args.cuisineType),
+    amenities: Array.isArray(args.amenities) ? args.amenities.filter((amenity): amenity is Amenity => typeof amenity === 'string') : [],
+  };
+}
+
+// The part of a place the model needs to talk about it
+function spokenPlace(place: Place) {
+  return {
+    name: place.name,
+    category: place.category,
+    rating: place.rating !== null && place.ratingScale ? `${place.rating}/${place.ratingScale}` : null,
+    price: place.priceLevel,
+    address: place.address,
+    summary: place.summary,
+  };
+}
+
+/**
+ * Runs a `searchPlaces` call of the Live model with the same grounded lookup (and cache)
+ * as the Local Guide, reporting its progress through the handler. Resolves to the
+ * response for the model, or null when the search was cancelled and needs none.
+ */
+async function runPlaceSearch(call: FunctionCall, handler: LivePlaceSearchHandler, signal: AbortSignal): Promise<FunctionResponse | null> {
+  const args = call.args || {};
+  let search: LivePlaceSearch = {
+    id: call.id || Date.now().toString(),
+    query: stringArg(args.query),
+    near: stringArg(args.near) || null,
+    status: 'searching',
+    location: null,
+    result: null,
+    error: null,
+  };
+  const update = (changes: Partial<LivePlaceSearch>) => {
+    search = { ...search, ...changes };
+    handler.onUpdate(search);
+  };
+  const respond = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name: call.name, response });
+
+  handler.onUpdate(search);
+  try {
+    if (!search.query) {
+      throw new Error('The search had no query.');
+    }
+    const location = search.near ? await resolveLocation(search.near, signal) : await handler.getLocation();
+    if (!location) {
+      update({ status: 'failed', error: 'Your location is not known. Name a city or area to search in.' });
+      return respond({ error: 'The user\'s location is not known. Ask which city or area to search in, then search again with "near".' });
     }
+    update({ location });
 
-    return { text, groundingUrls };
+    const result = await getPlacesRecommendations(search.query, location, placeSearchFilters(args), 'maps', false, signal);
+    update({ status: 'done', result });
+    return respond({
+      output: {
+        searchedNear: location.label || 'the user\'s current location',
+        resultCount: result.places.length,
+        topPlaces: result.places.slice(0, SPOKEN_PLACE_COUNT).map(spokenPlace),
+        // Without parsed places, the model can still read from the answer itself
+        ...(result.places.length === 0 ? { answer: result.text } : {}),
+      },
+    });
   } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    if (error instanceof Error) {
-      if (error.message.includes("Requested entity was not found.")) {
-        throw new Error("API call failed, please check your query or API key status. " + error.message);
-      }
+    if (isCancellation(error)) {
+      update({ status: 'cancelled' });
+      return null;
     }
-    throw new Error("Failed to get recommendations: " + (error as Error).message);
+    const message = (error as Error).message || String(error);
+    update({ status: 'failed', error: message });
+    return respond({ error: message });
   }
 }
 
 /**
- * Connects to the Gemini Live API for real-time audio conversation.
+ * The Live session config for a request; the proxy server builds it the same way, so
+ * a relayed session gets nothing the app does not offer.
+ */
+export function buildLiveConfig(request: LiveConnectRequest): LiveConnectConfig {
+  const { voiceName, languageCode, systemInstruction, placeSearch } = request;
+  // Native audio models pick the language they speak themselves and take no language
+  // code, so the language is asked for in the instruction
+  const instruction = [
+    systemInstruction,
+    languageCode ? `Always speak ${liveLanguageName(languageCode)}, whatever language the user speaks.` : '',
+    placeSearch ? `When the user asks for places to go, eat or visit, use ${PLACE_SEARCH_FUNCTION.name}, then briefly read out the top results with their ratings.` : '',
+  ].filter(Boolean).join('\n\n');
+  return {
+    responseModalities: [Modality.AUDIO],
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+    },
+    systemInstruction: instruction,
+    outputAudioTranscription: {}, // Enable transcription for model output audio.
+    inputAudioTranscription: {}, // Enable transcription for user input audio.
+    tools: placeSearch ? [{ functionDeclarations: [PLACE_SEARCH_FUNCTION] }] : undefined,
+  };
+}
+
+/**
+ * Connects to the Gemini Live API for real-time audio conversation. With a
+ * `placeSearch` handler, the model can search for places by voice; it reads out the
+ * top results while the handler gets all of them.
  */
 export async function connectLiveSession(
   onMessage: (message: LiveServerMessage) => Promise<void>,
   onError: (e: ErrorEvent) => void,
   onClose: (e: CloseEvent) => void,
-  systemInstruction?: string,
+  options: LiveSessionOptions = {},
 ) {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const { systemInstruction, voiceName = DEFAULT_LIVE_SETTINGS.voiceName, languageCode = '', placeSearch, signal } = options;
+  const request: LiveConnectRequest = {
+    voiceName,
+    languageCode,
+    systemInstruction: systemInstruction || 'You are a friendly and helpful assistant.',
+    placeSearch: !!placeSearch,
+  };
   // FIX: Removed `|| window.webkitAudioContext` as it's deprecated and unnecessary in modern browsers.
   const inputAudioContext = new window.AudioContext({ sampleRate: 16000 });
   // FIX: Removed `|| window.webkitAudioContext` as it's deprecated and unnecessary in modern browsers.
@@ -185,152 +552,362 @@ export async function connectLiveSession(
     console.error("Error accessing microphone:", err);
     throw new Error("Microphone access denied or not available. " + (err as Error).message);
   }
+  if (signal?.aborted) {
+    mediaStream.getTracks().forEach(track => track.stop());
+    signal.throwIfAborted();
+  }
 
-  const sessionPromise = ai.live.connect({
-    model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-    callbacks: {
-      onopen: () => {
-        console.debug('Live session opened');
-        mediaStreamSource = inputAudioContext.createMediaStreamSource(mediaStream!);
-        scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-        scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-          const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-          const pcmBlob = createBlob(inputData);
-          sessionPromise.then((session) => {
-            session.sendRealtimeInput({ media: pcmBlob });
-          });
-        };
-        mediaStreamSource.connect(scriptProcessor);
-        scriptProcessor.connect(inputAudioContext.destination);
-      },
-      onmessage: async (message: LiveServerMessage) => {
-        // Handle audio output
-        const base64EncodedAudioString = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-        if (base64EncodedAudioString) {
-          nextStartTime = Math.max(nextStartTime, outputAudioContext.currentTime);
-          try {
-            const audioBuffer = await decodeAudioData(
-              decode(base64EncodedAudioString),
-              outputAudioContext,
-              24000,
-              1,
-            );
-            const source = outputAudioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(outputNode);
-            source.addEventListener('ended', () => {
-              sources.delete(source);
-            });
-            source.start(nextStartTime);
-            nextStartTime = nextStartTime + audioBuffer.duration;
-            sources.add(source);
-          } catch (audioError) {
-            console.error("Error decoding or playing audio:", audioError);
-          }
-        }
+  // Searches still running, by function call id, so they can be cancelled
+  const runningSearches = new Map<string, AbortController>();
+  const stopSearches = (ids: string[] = Array.from(runningSearches.keys())) => {
+    ids.forEach((id) => runningSearches.get(id)?.abort());
+  };
+
+  const answerToolCall = async (toolCall: LiveServerToolCall) => {
+    const responses = await Promise.all((toolCall.functionCalls || []).map(async (call) => {
+      if (call.name !== PLACE_SEARCH_FUNCTION.name || !placeSearch) {
+        return { id: call.id, name: call.name, response: { error: `Unknown function "${call.name}".` } };
+      }
+      const controller = new AbortController();
+      const id = call.id || Date.now().toString();
+      runningSearches.set(id, controller);
+      try {
+        return await runPlaceSearch({ ...call, id }, placeSearch, controller.signal);
+      } finally {
+        runningSearches.delete(id);
+      }
+    }));
+    const functionResponses = responses.filter((response): response is FunctionResponse => response !== null);
+    if (functionResponses.length > 0) {
+      const session = await sessionPromise;
+      session.sendToolResponse({ functionResponses });
+    }
+  };
 
-        const interrupted = message.serverContent?.interrupted;
-        if (interrupted) {
-          for (const source of sources.values()) {
-            source.stop();
+  const callbacks: LiveCallbacks = {
+    onopen: () => {
+      console.debug('Live session opened');
+      mediaStreamSource = inputAudioContext.createMediaStreamSource(mediaStream!);
+      scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
+      scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
+        const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
+        const pcmBlob = createBlob(inputData);
+        sessionPromise.then((session) => {
+          session.sendRealtimeInput({ media: pcmBlob });
+        });
+      };
+      mediaStreamSource.connect(scriptProcessor);
+      scriptProcessor.connect(inputAudioContext.destination);
+    },
+    onmessage: async (message: LiveServerMessage) => {
+      // Handle audio output
+      const base64EncodedAudioString = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+      if (base64EncodedAudioString) {
+        nextStartTime = Math.max(nextStartTime, outputAudioContext.currentTime);
+        try {
+          const audioBuffer = await decodeAudioData(
+            decode(base64EncodedAudioString),
+            outputAudioContext,
+            24000,
+            1,
+          );
+          const source = outputAudioContext.createBufferSource();
+          source.buffer = audioBuffer;
+          source.connect(outputNode);
+          source.addEventListener('ended', () => {
             sources.delete(source);
-          }
-          nextStartTime = 0;
+          });
+          source.start(nextStartTime);
+          nextStartTime = nextStartTime + audioBuffer.duration;
+          sources.add(source);
+        } catch (audioError) {
+          console.error("Error decoding or playing audio:", audioError);
         }
+      }
 
-        await onMessage(message); // Pass message to UI component for transcription, etc.
-      },
-      onerror: (e: ErrorEvent) => {
-        console.error('Live session error:', e);
-        onError(e);
-      },
-      onclose: (e: CloseEvent) => {
-        console.debug('Live session closed');
-        // Stop all audio playback
+      const interrupted = message.serverContent?.interrupted;
+      if (interrupted) {
         for (const source of sources.values()) {
           source.stop();
           sources.delete(source);
         }
         nextStartTime = 0;
+      }
 
-        // Disconnect audio nodes and stop microphone track
-        if (scriptProcessor) {
-          scriptProcessor.disconnect();
-          scriptProcessor.onaudioprocess = null;
-        }
-        if (mediaStreamSource) {
-          mediaStreamSource.disconnect();
-        }
-        mediaStream?.getTracks().forEach(track => track.stop());
+      if (message.toolCall) {
+        answerToolCall(message.toolCall).catch((toolError) => console.error("Error answering Live tool call:", toolError));
+      }
+      // The model was interrupted before it used the results
+      if (message.toolCallCancellation?.ids) {
+        stopSearches(message.toolCallCancellation.ids);
+      }
 
-        onClose(e);
-      },
+      await onMessage(message); // Pass message to UI component for transcription, etc.
     },
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-      },
-      systemInstruction: systemInstruction || 'You are a friendly and helpful assistant.',
-      outputAudioTranscription: {}, // Enable transcription for model output audio.
-      inputAudioTranscription: {}, // Enable transcription for user input audio.
+    onerror: (e: ErrorEvent) => {
+      console.error('Live session error:', e);
+      onError(e);
     },
-  });
+    onclose: (e: CloseEvent) => {
+      console.debug('Live session closed');
+      stopSearches();
+      // Stop all audio playback
+      for (const source of sources.values()) {
+        source.stop();
+        sources.delete(source);
+      }
+      nextStartTime = 0;
+
+      // Disconnect audio nodes and stop microphone track
+      if (scriptProcessor) {
+        scriptProcessor.disconnect();
+        scriptProcessor.onaudioprocess = null;
+      }
+      if (mediaStreamSource) {
+        mediaStreamSource.disconnect();
+      }
+      mediaStream?.getTracks().forEach(track => track.stop());
+
+      onClose(e);
+    },
+  };
+  // Through the proxy, the session is relayed by the server, which holds the API key
+  const sessionPromise = usesProxyServer()
+    ? proxy.connectLive(request, callbacks)
+    : getModelProvider().connectLive({ model: MODELS.liveAudio, callbacks, config: buildLiveConfig(request) });
 
+  signal?.addEventListener('abort', () => {
+    sessionPromise.then((session) => session.close()).catch(() => {});
+  }, { once: true });
   return sessionPromise;
 }
 
 /**
  * Sends a general text message to Gemini for low-latency responses.
  */
-export async function sendGeneralChatMessage(prompt: string): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function sendGeneralChatMessage(prompt: string, signal?: AbortSignal): Promise<string> {
+  if (usesProxyServer()) {
+    return proxy.streamChatReply([{ role: 'user', parts: [{ text: prompt }] }], undefined, () => {}, signal);
+  }
+  const provider = getModelProvider();
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash-lite", // Low-latency model
+    const response: GenerateContentResponse = await withRetry(() => provider.generateContent({
+      model: MODELS.generalChat,
       contents: prompt,
-    });
+      config: { abortSignal: signal },
+    }), { signal });
+    assertResponseAnswered(response);
     return response.text;
   } catch (error) {
-    console.error("Error sending general chat message:", error);
-    throw new Error("Failed to get response: " + (error as Error).message);
+    logServiceError("Error sending general chat message:", error);
+    throw toServiceError(error, "Failed to get response");
+  }
+}
+
+/**
+ * Streams the next General Chat reply for a whole conversation (alternating user and
+ * model turns, ending with the user's message); `onText` receives the reply so far.
+ */
+export async function streamChatReply(
+  contents: Content[],
+  systemInstruction: string | undefined,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  if (usesProxyServer()) {
+    return proxy.streamChatReply(contents, systemInstruction, onText, signal);
+  }
+  const provider = getModelProvider();
+  try {
+    const request = () => provider.generateContentStream({
+      model: MODELS.generalChat,
+      contents,
+      config: { systemInstruction, abortSignal: signal },
+    });
+    return (await withRetry(async () => readStream(await request(), onText, signal), { signal })).text;
+  } catch (error) {
+    logServiceError("Error sending general chat message:", error);
+    throw toServiceError(error, "Failed to get response");
+  }
+}
+
+/**
+ * Condenses the older part of a chat into a short summary, extending the previous
+ * summary if there is one.
+ */
+export async function summarizeConversation(
+  previousSummary: string | null,
+  messages: Pick<ChatMessage, 'sender' | 'text'>[],
+  signal?: AbortSignal,
+): Promise<string> {
+  if (usesProxyServer()) {
+    return proxy.summarizeConversation(previousSummary, messages, signal);
+  }
+  const provider = getModelProvider();
+  const transcript = messages
+    .map((message) => `${message.sender === 'user' ? 'User' : 'Assistant'}: ${message.text}`)
+    .join('\n\n');
+  const modelPrompt = `Summarize this conversation between a user and an assistant in at most 200 words. Keep names, numbers, decisions, open questions and anything the user asked to remember, so the conversation can continue from the summary alone.${
+    previousSummary ? `\n\nSummary of the conversation before these messages:\n${previousSummary}` : ''
+  }\n\nMessages:\n${transcript}`;
+
+  try {
+    const response: GenerateContentResponse = await withRetry(() => provider.generateContent({
+      model: MODELS.generalChat,
+      contents: modelPrompt,
+      config: { abortSignal: signal },
+    }), { signal });
+    assertResponseAnswered(response);
+    return response.text!.trim();
+  } catch (error) {
+    logServiceError("Error summarizing conversation:", error);
+    throw toServiceError(error, "Failed to summarize conversation");
   }
 }
 
 /**
  * Analyzes an uploaded image with an optional text prompt.
  */
-export async function analyzeImage(imagePart: ImageDataPart, prompt: string): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function analyzeImage(imagePart: ImageDataPart, prompt: string, signal?: AbortSignal): Promise<string> {
+  if (usesProxyServer()) {
+    return proxy.analyzeImage(imagePart, prompt, signal);
+  }
+  const provider = getModelProvider();
   try {
     const contents: any[] = [{ text: prompt }, imagePart];
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash", // Image understanding model
+    const response: GenerateContentResponse = await withRetry(() => provider.generateContent({
+      model: MODELS.imageAnalysis,
       contents: { parts: contents },
-    });
+      config: { abortSignal: signal },
+    }), { signal });
+    assertResponseAnswered(response);
     return response.text;
   } catch (error) {
-    console.error("Error analyzing image:", error);
-    throw new Error("Failed to analyze image: " + (error as Error).message);
+    logServiceError("Error analyzing image:", error);
+    throw toServiceError(error, "Failed to analyze image");
   }
 }
 
 /**
  * Sends a complex query to Gemini with thinking mode enabled.
  */
-export async function sendComplexQuery(prompt: string): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function sendComplexQuery(prompt: string, signal?: AbortSignal): Promise<string> {
+  if (usesProxyServer()) {
+    return proxy.streamComplexQuery(prompt, () => {}, signal);
+  }
+  const provider = getModelProvider();
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-pro", // Model for complex reasoning
+    const response: GenerateContentResponse = await withRetry(() => provider.generateContent({
+      model: MODELS.complexReasoning,
       contents: prompt,
       config: {
-        thinkingConfig: { thinkingBudget: 32768 }, // Max thinking budget for 2.5 Pro
+        thinkingConfig: { thinkingBudget: COMPLEX_REASONING_THINKING_BUDGET },
+        abortSignal: signal,
       },
-    });
+    }), { signal });
+    assertResponseAnswered(response);
     return response.text;
   } catch (error) {
-    console.error("Error sending complex query:", error);
-    throw new Error("Failed to process complex query: " + (error as Error).message);
+    logServiceError("Error sending complex query:", error);
+    throw toServiceError(error, "Failed to process complex query");
+  }
+}
+
+/**
+ * Streaming variant of `sendComplexQuery`. Nothing arrives while the model is thinking;
+ * `onText` then receives the answer so far.
+ */
+export async function streamComplexQuery(prompt: string, onText: (text: string) => void, signal?: AbortSignal): Promise<string> {
+  if (usesProxyServer()) {
+    return proxy.streamComplexQuery(prompt, onText, signal);
+  }
+  const provider = getModelProvider();
+  try {
+    const request = () => provider.generateContentStream({
+      model: MODELS.complexReasoning,
+      contents: prompt,
+      config: {
+        thinkingConfig: { thinkingBudget: COMPLEX_REASONING_THINKING_BUDGET },
+        abortSignal: signal,
+      },
+    });
+    return (await withRetry(async () => readStream(await request(), onText, signal), { signal })).text;
+  } catch (error) {
+    logServiceError("Error sending complex query:", error);
+    throw toServiceError(error, "Failed to process complex query");
+  }
+}
+
+/**
+ * Plans a day visiting the given places with the reasoning model: it orders the stops,
+ * estimates visit durations and travel gaps, and adds meal slots within the day's hours.
+ */
+export async function planItinerary(places: Place[], options: ItineraryOptions, signal?: AbortSignal): Promise<Itinerary> {
+  if (usesProxyServer()) {
+    return proxy.planItinerary(places, options, signal);
+  }
+  const provider = getModelProvider();
+  const placeLines = places.map((place, index) => {
+    const details = [
+      place.category,
+      place.address,
+      place.location ? `coordinates ${place.location.latitude}, ${place.location.longitude}` : '',
+    ].filter(Boolean).join('; ');
+    return `${index + 1}. ${place.name}${details ? ` (${details})` : ''}`;
+  });
+  const origin = options.origin
+    ? ` The day starts and ends at coordinates ${options.origin.latitude}, ${options.origin.longitude}.`
+    : '';
+  const modelPrompt = `Plan a day itinerary on ${options.date} from ${formatTime(options.startMinutes)} to ${formatTime(options.endMinutes)} visiting these places:\n${placeLines.join('\n')}\n\nPut the stops in an order that keeps travel short and suits the time of day (for example cafés in the morning, restaurants at meal times, bars in the evening).${origin} Estimate a realistic visit duration for each place and the travel time in minutes before each stop. Add meal stops at sensible times; use one of the places above for a meal when it is a restaurant or café, otherwise name the meal stop (e.g. "Lunch nearby"). The whole plan must fit between the start and end time; leave out places that do not fit. Use the place names exactly as written above.`;
+
+  try {
+    const response: GenerateContentResponse = await withRetry(() => provider.generateContent({
+      model: MODELS.complexReasoning,
+      contents: modelPrompt,
+      config: {
+        thinkingConfig: { thinkingBudget: COMPLEX_REASONING_THINKING_BUDGET },
+        responseMimeType: 'application/json',
+        responseSchema: ITINERARY_RESPONSE_SCHEMA,
+        abortSignal: signal,
+      },
+    }), { signal });
+    assertResponseAnswered(response);
+    return parseItineraryResponse(response.text || '', places, options);
+  } catch (error) {
+    logServiceError("Error planning itinerary:", error);
+    throw toServiceError(error, "Failed to plan itinerary");
+  }
+}
+
+/**
+ * Asks which of the compared places suits `purpose`. The answer is grounded with Google
+ * Maps, the same source as the recommendations, and cites it.
+ */
+export async function comparePlaces(places: Place[], purpose: string, userLocation: UserLocation, signal?: AbortSignal): Promise<ComparisonVerdict> {
+  if (usesProxyServer()) {
+    return proxy.comparePlaces(places, purpose, userLocation, signal);
+  }
+  const provider = getModelProvider();
+  const placeLines = places.map((place, index) => {
+    const details = [place.category, place.address].filter(Boolean).join('; ');
+    return `${index + 1}. ${place.name}${details ? ` (${details})` : ''}`;
+  });
+  const modelPrompt = `Compare these places for ${purpose}:\n${placeLines.join('\n')}\n\nStart with which one you would pick and why, in two or three sentences. Then give one bullet per place with its main strength and weakness for this purpose. Base everything on what Google Maps knows about these places, such as reviews, ratings, prices and opening hours, and use the place names exactly as written above.`;
+  const { tools, toolConfig } = buildGroundingConfig('maps', userLocation);
+
+  try {
+    const response: GenerateContentResponse = await withRetry(() => provider.generateContent({
+      model: MODELS.placesGrounding,
+      contents: modelPrompt,
+      config: { tools, toolConfig, abortSignal: signal },
+    }), { signal });
+    assertResponseAnswered(response);
+    const text = response.text || '';
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    const { sources, citations } = buildCitations(text, text, metadata?.groundingChunks || [], metadata?.groundingSupports || []);
+    return { text, sources, citations };
+  } catch (error) {
+    logServiceError("Error comparing places:", error);
+    throw toServiceError(error, "Failed to compare places");
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,196 @@
+import { LatLng } from "../types";
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 2;
+export const MAX_ZOOM = 18;
+
+// Web Mercator is undefined at the poles; clamp like every slippy map does
+const MAX_LATITUDE = 85.05112878;
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Projects a coordinate to Web Mercator "world pixels" at the given zoom level.
+ */
+export function project(point: LatLng, zoom: number): PixelPoint {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.latitude));
+  const sinLat = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((point.longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * Inverse of `project`: converts world pixels at a zoom level back to a coordinate.
+ */
+export function unproject(pixel: PixelPoint, zoom: number): LatLng {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const longitude = (pixel.x / scale) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * pixel.y) / scale;
+  const latitude = (180 / Math.PI) * Math.atan(Math.sinh(n));
+  return { latitude, longitude };
+}
+
+/**
+ * Picks the highest zoom level at which every point fits in a viewport of the given size.
+ */
+export function fitZoom(points: LatLng[], width: number, height: number, padding = 40): number {
+  if (points.length < 2) {
+    return 14;
+  }
+  for (let zoom = MAX_ZOOM - 2; zoom > MIN_ZOOM; zoom--) {
+    const projected = points.map((point) => project(point, zoom));
+    const xs = projected.map((p) => p.x);
+    const ys = projected.map((p) => p.y);
+    if (
+      Math.max(...xs) - Math.min(...xs) <= width - padding * 2 &&
+      Math.max(...ys) - Math.min(...ys) <= height - padding * 2
+    ) {
+      return zoom;
+    }
+  }
+  return MIN_ZOOM;
+}
+
+/**
+ * Returns the coordinate at the center of the bounding box of the given points.
+ */
+export function boundsCenter(points: LatLng[]): LatLng {
+  const lats = points.map((p) => p.latitude);
+  const lngs = points.map((p) => p.longitude);
+  return {
+    latitude: (Math.min(...lats) + Math.max(...lats)) / 2,
+    longitude: (Math.min(...lngs) + Math.max(...lngs)) / 2,
+  };
+}
+
+/**
+ * Parses a "lat, lng" string (comma or whitespace separated, decimal degrees).
+ * Returns null when the text is not a valid coordinate pair.
+ */
+export function parseCoordinates(text: string): LatLng | null {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return null;
+  }
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+  return { latitude, longitude };
+}
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+// Straight-line distance understates real routes; this rough factor approximates street detours
+const ROUTE_DETOUR_FACTOR = 1.3;
+
+// Average door-to-door speeds in km/h
+const TRAVEL_SPEEDS_KMH = {
+  walking: 4.8,
+  cycling: 15,
+  driving: 30, // City driving, including traffic lights and parking
+};
+
+export type TravelMode = keyof typeof TRAVEL_SPEEDS_KMH;
+
+export interface PlaceDistance {
+  meters: number; // Great-circle distance
+  bearing: number; // Initial bearing in degrees clockwise from north
+  travelMinutes: Record<TravelMode, number>;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// About 1 km: searches from a few streets away count as made from the same place
+const LOCATION_CELL_DEGREES = 0.01;
+
+/**
+ * The cell of a coarse latitude/longitude grid that a point falls in, as row and column.
+ */
+export function locationCell(point: LatLng): [number, number] {
+  return [Math.round(point.latitude / LOCATION_CELL_DEGREES), Math.round(point.longitude / LOCATION_CELL_DEGREES)];
+}
+
+/**
+ * Great-circle distance between two coordinates in meters (haversine formula).
+ */
+export function distanceMeters(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Initial bearing from one coordinate to another, in degrees clockwise from north.
+ */
+export function bearingDegrees(from: LatLng, to: LatLng): number {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Converts a bearing to an 8-point compass direction, e.g. 'NE'.
+ */
+export function compassDirection(bearing: number): string {
+  const directions = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+  return directions[Math.round(bearing / 45) % 8];
+}
+
+/**
+ * Estimates travel times in minutes for a straight-line distance.
+ */
+export function estimateTravelMinutes(meters: number): Record<TravelMode, number> {
+  const routeKm = (meters * ROUTE_DETOUR_FACTOR) / 1000;
+  return {
+    walking: (routeKm / TRAVEL_SPEEDS_KMH.walking) * 60,
+    cycling: (routeKm / TRAVEL_SPEEDS_KMH.cycling) * 60,
+    driving: (routeKm / TRAVEL_SPEEDS_KMH.driving) * 60,
+  };
+}
+
+export function getPlaceDistance(origin: LatLng, destination: LatLng): PlaceDistance {
+  const meters = distanceMeters(origin, destination);
+  return {
+    meters,
+    bearing: bearingDegrees(origin, destination),
+    travelMinutes: estimateTravelMinutes(meters),
+  };
+}
+
+// Rounded before choosing the unit, so 995 m reads "1.0 km" rather than "1000 m"
+export function formatDistance(meters: number): string {
+  const rounded = Math.round(meters / 10) * 10;
+  if (rounded < 1000) {
+    return `${rounded} m`;
+  }
+  const kilometers = Math.round(meters / 100) / 10;
+  return kilometers < 10 ? `${kilometers.toFixed(1)} km` : `${Math.round(kilometers)} km`;
+}
+
+// Rounded to whole minutes before splitting into hours, so 119.6 min reads "2 h"
+export function formatDuration(minutes: number): string {
+  if (minutes < 1) {
+    return '<1 min';
+  }
+  const total = Math.round(minutes);
+  if (total < 60) {
+    return `${total} min`;
+  }
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
@@ -0,0 +1,101 @@
+import { Tool, ToolConfig } from "@google/genai";
+import { GroundingMode, GroundingTool, UserLocation } from "../types";
+
+export const GROUNDING_TOOL_LABELS: Record<GroundingTool, string> = {
+  'maps': 'Google Maps',
+  'search': 'Google Search',
+  'maps+search': 'Google Maps + Search',
+};
+
+// Things you can visit, eat or stay at. Includes common non-English words so those
+// queries are not misrouted to Search just because they are not in English.
+const PLACE_TERMS = [
+  'restaurant', 'cafe', 'café', 'coffee', 'bar', 'pub', 'bistro', 'bakery', 'brunch', 'breakfast', 'lunch', 'dinner',
+  'food', 'eat', 'pizza', 'sushi', 'ramen', 'burger', 'taco', 'noodle', 'steak', 'seafood', 'vegan', 'vegetarian',
+  'dessert', 'ice cream', 'gelato', 'wine', 'beer', 'cocktail', 'hotel', 'hostel', 'motel', 'inn', 'b&b', 'stay',
+  'park', 'museum', 'gallery', 'beach', 'trail', 'hike', 'viewpoint', 'landmark', 'attraction', 'zoo', 'garden',
+  'store', 'shop', 'market', 'mall', 'supermarket', 'pharmacy', 'gym', 'spa', 'salon', 'barber', 'cinema', 'theater',
+  'library', 'coworking', 'place to work', 'places to work', 'study', 'playground', 'club', 'venue', 'gas station',
+  'parking', 'hospital', 'clinic', 'dentist', 'atm',
+  // Spanish, Portuguese, French, Italian, German
+  'restaurante', 'comida', 'cafetería', 'tienda', 'playa', 'museo', 'parque', 'padaria', 'lanchonete', 'hôtel',
+  'boulangerie', 'musée', 'plage', 'ristorante', 'trattoria', 'pizzeria', 'spiaggia', 'gaststätte', 'kneipe',
+  'bäckerei', 'essen', 'geschäft', 'strand',
+  // Japanese, Chinese, Korean
+  'レストラン', 'カフェ', '居酒屋', 'ラーメン', '寿司', 'ホテル', '公園', '餐厅', '咖啡', '酒店', '公园', '饭店',
+  '식당', '카페', '호텔', '맛집',
+];
+
+// Words that tie the query to a location.
+const PROXIMITY_TERMS = [
+  'near', 'nearby', 'near me', 'around', 'close to', 'closest', 'nearest', 'walking distance', 'within',
+  'in my area', 'local', 'open now', 'cerca', 'cerca de mí', 'près', 'à proximité', 'vicino', 'in der nähe',
+  'in der naehe', '近く', '附近', '周辺', '근처',
+];
+
+// Words that ask for information rather than a list of places.
+const INFORMATION_TERMS = [
+  'who', 'why', 'when', 'what is', 'what are', 'how to', 'how do', 'history', 'news', 'explain', 'meaning',
+  'definition', 'recipe', 'compare', 'vs', 'versus', 'review of', 'article', 'event', 'events', 'festival',
+  'schedule', 'tickets', 'price of', 'weather',
+];
+
+function containsTerm(text: string, term: string): boolean {
+  // Latin terms must match on word boundaries ('bar' should not match 'barbecue' recipes);
+  // CJK terms have no word boundaries, so a substring match is the best we can do.
+  if (/^[\x00-\x7FÀ-ɏ\s&]+$/.test(term)) {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}])${escaped}(s|es)?($|[^\\p{L}])`, 'iu').test(text);
+  }
+  return text.includes(term);
+}
+
+function countTerms(text: string, terms: string[]): number {
+  return terms.filter((term) => containsTerm(text, term)).length;
+}
+
+/**
+ * Decides which grounding tool fits a Local Guide query. Place-like queries go to Maps,
+ * purely informational ones to Search, and queries that mix both to Maps plus Search.
+ * Queries with no signal at all default to Maps, since the Local Guide always looks for places.
+ */
+export function classifyQuery(query: string): GroundingTool {
+  const text = query.toLowerCase().normalize('NFC');
+  const placeScore = countTerms(text, PLACE_TERMS) + countTerms(text, PROXIMITY_TERMS);
+  const informationScore = countTerms(text, INFORMATION_TERMS);
+
+  if (informationScore > 0 && placeScore > 0) {
+    return 'maps+search';
+  }
+  if (informationScore > 0) {
+    return 'search';
+  }
+  return 'maps';
+}
+
+export function resolveGroundingTool(mode: GroundingMode, query: string): GroundingTool {
+  return mode === 'auto' ? classifyQuery(query) : mode;
+}
+
+/**
+ * Builds the `tools` and `toolConfig` for a grounded request. The user's location is
+ * always passed as retrieval config whenever Maps is involved; Search alone needs none.
+ */
+export function buildGroundingConfig(tool: GroundingTool, userLocation: UserLocation): { tools: Tool[]; toolConfig?: ToolConfig } {
+  const tools: Tool[] = [];
+  if (tool === 'maps' || tool === 'maps+search') {
+    tools.push({ googleMaps: {} });
+  }
+  if (tool === 'search' || tool === 'maps+search') {
+    tools.push({ googleSearch: {} });
+  }
+  const toolConfig = tool === 'search' ? undefined : {
+    retrievalConfig: {
+      latLng: {
+        latitude: userLocation.latitude,
+        longitude: userLocation.longitude,
+      },
+    },
+  };
+  return { tools, toolConfig };
+}
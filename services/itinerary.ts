@@ -0,0 +1,295 @@
+import { Schema, Type } from "@google/genai";
+import { Itinerary, ItineraryStop, LatLng, Place } from "../types";
+import { generateId } from "./db";
+import { distanceMeters, estimateTravelMinutes } from "./geo";
+import { normalizePlaceName } from "./placeParser";
+
+// Beyond this walking time, trips between stops are estimated by car
+const MAX_WALKING_MINUTES = 30;
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface ItineraryOptions {
+  date: string; // YYYY-MM-DD
+  startMinutes: number;
+  endMinutes: number;
+  origin: LatLng | null; // Where the day starts
+}
+
+/**
+ * Response schema for the planner. Times are not requested: they follow from the
+ * order, durations and travel gaps, so edits can recompute them.
+ */
+export const ITINERARY_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'One or two sentences on how the day is organized.' },
+    stops: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ['visit', 'meal'] },
+          placeName: { type: Type.STRING, description: 'Exactly one of the given place names, or a short label such as "Lunch nearby" for a meal elsewhere.' },
+          durationMinutes: { type: Type.INTEGER },
+          travelMinutesFromPrevious: { type: Type.INTEGER, description: 'From the previous stop, or from the starting point for the first stop.' },
+          note: { type: Type.STRING, description: 'A short tip for this stop.' },
+        },
+        required: ['kind', 'placeName', 'durationMinutes', 'travelMinutesFromPrevious'],
+        propertyOrdering: ['kind', 'placeName', 'durationMinutes', 'travelMinutesFromPrevious', 'note'],
+      },
+    },
+  },
+  required: ['summary', 'stops'],
+  propertyOrdering: ['summary', 'stops'],
+};
+
+/**
+ * Parses "HH:MM" into minutes after midnight, or null.
+ */
+export function parseTime(text: string): number | null {
+  const match = text.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/**
+ * Formats minutes after midnight as "HH:MM". Times past midnight wrap around.
+ */
+export function formatTime(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+export function stopEndMinutes(stop: ItineraryStop): number {
+  return stop.startMinutes + stop.durationMinutes;
+}
+
+/**
+ * Minutes the plan runs past its end time (0 when it fits).
+ */
+export function itineraryOverrun(itinerary: Itinerary): number {
+  const last = itinerary.stops[itinerary.stops.length - 1];
+  return last ? Math.max(0, stopEndMinutes(last) - itinerary.endMinutes) : 0;
+}
+
+/**
+ * Recomputes every start time from the day's start, the durations and the travel gaps.
+ */
+export function scheduleItinerary(itinerary: Itinerary): Itinerary {
+  let clock = itinerary.startMinutes;
+  const stops = itinerary.stops.map((stop) => {
+    const startMinutes = clock + stop.travelMinutes;
+    clock = startMinutes + stop.durationMinutes;
+    return { ...stop, startMinutes };
+  });
+  return { ...itinerary, stops };
+}
+
+function estimateTravel(from: LatLng, to: LatLng): number {
+  const minutes = estimateTravelMinutes(distanceMeters(from, to));
+  return Math.ceil(minutes.walking <= MAX_WALKING_MINUTES ? minutes.walking : minutes.driving);
+}
+
+/**
+ * Moves a stop and re-estimates the travel gaps that changed. Gaps are estimated from
+ * coordinates when both ends are known (the nearest earlier stop with a location, or
+ * the starting point); other gaps keep their value.
+ */
+export function moveStop(itinerary: Itinerary, index: number, targetIndex: number, places: Place[], origin: LatLng | null): Itinerary {
+  if (targetIndex < 0 || targetIndex >= itinerary.stops.length || targetIndex === index) {
+    return itinerary;
+  }
+  const stops = [...itinerary.stops];
+  const [moved] = stops.splice(index, 1);
+  stops.splice(targetIndex, 0, moved);
+
+  const locationOf = (stop: ItineraryStop): LatLng | null =>
+    places.find((place) => place.id === stop.placeId)?.location || null;
+  let previous = origin;
+  const retimed = stops.map((stop) => {
+    const location = locationOf(stop);
+    const travelMinutes = location && previous ? estimateTravel(previous, location) : stop.travelMinutes;
+    previous = location || previous;
+    return { ...stop, travelMinutes };
+  });
+  return scheduleItinerary({ ...itinerary, stops: retimed });
+}
+
+export function updateStop(itinerary: Itinerary, id: string, changes: Partial<Pick<ItineraryStop, 'name' | 'durationMinutes' | 'travelMinutes' | 'note'>>): Itinerary {
+  return scheduleItinerary({
+    ...itinerary,
+    stops: itinerary.stops.map((stop) => (stop.id === id ? { ...stop, ...changes } : stop)),
+  });
+}
+
+export function removeStop(itinerary: Itinerary, id: string): Itinerary {
+  return scheduleItinerary({ ...itinerary, stops: itinerary.stops.filter((stop) => stop.id !== id) });
+}
+
+/**
+ * Adds a meal slot after the given stop (or at the start when `afterIndex` is -1).
+ */
+export function addMealStop(itinerary: Itinerary, afterIndex: number, name: string = 'Meal break'): Itinerary {
+  const stops = [...itinerary.stops];
+  stops.splice(afterIndex + 1, 0, {
+    id: generateId('stop'),
+    kind: 'meal',
+    placeId: null,
+    name,
+    startMinutes: 0,
+    durationMinutes: 60,
+    travelMinutes: 0,
+    note: '',
+  });
+  return scheduleItinerary({ ...itinerary, stops });
+}
+
+function asMinutes(value: unknown, fallback: number, max: number): number {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(number) ? Math.min(max, Math.max(0, Math.round(number))) : fallback;
+}
+
+// The fields of a JSON object, or none for anything else
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Turns the planner's JSON into an itinerary. Stops are matched to the selected places
+ * by name; visits to unknown places are dropped, as are repeat visits.
+ */
+export function parseItineraryResponse(text: string, places: Place[], options: ItineraryOptions): Itinerary {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.trim().replace(/^```(?:json)?\s*|```$/g, ''));
+  } catch {
+    throw new Error('The planner did not return valid JSON.');
+  }
+  const plan = asRecord(data);
+  if (!Array.isArray(plan.stops)) {
+    throw new Error('The planner response has no stops.');
+  }
+
+  const visited = new Set<string>();
+  const stops: ItineraryStop[] = [];
+  for (const item of plan.stops) {
+    const raw = asRecord(item);
+    const name = typeof raw.placeName === 'string' ? raw.placeName.trim() : '';
+    if (!name) continue;
+    const place = places.find((candidate) => normalizePlaceName(candidate.name) === normalizePlaceName(name));
+    const kind = raw.kind === 'meal' ? 'meal' : 'visit';
+    if (kind === 'visit' && (!place || visited.has(place.id))) continue;
+    if (place && kind === 'visit') visited.add(place.id);
+    stops.push({
+      id: generateId('stop'),
+      kind,
+      placeId: place?.id || null,
+      name: place?.name || name,
+      startMinutes: 0,
+      durationMinutes: asMinutes(raw.durationMinutes, 60, 12 * 60) || 15,
+      travelMinutes: asMinutes(raw.travelMinutesFromPrevious, 0, 6 * 60),
+      note: typeof raw.note === 'string' ? raw.note.trim() : '',
+    });
+  }
+  if (stops.length === 0) {
+    throw new Error('The planner did not include any of the selected places.');
+  }
+
+  return scheduleItinerary({
+    date: options.date,
+    startMinutes: options.startMinutes,
+    endMinutes: options.endMinutes,
+    summary: typeof plan.summary === 'string' ? plan.summary.trim() : '',
+    stops,
+  });
+}
+
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Floating local time (no time zone), so events land at the same clock time anywhere
+function icsDateTime(date: string, minutes: number): string {
+  const day = new Date(`${date}T00:00:00`);
+  day.setMinutes(Math.round(minutes));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${day.getFullYear()}${pad(day.getMonth() + 1)}${pad(day.getDate())}T${pad(day.getHours())}${pad(day.getMinutes())}00`;
+}
+
+const MAX_ICS_LINE_OCTETS = 75;
+const utf8 = new TextEncoder();
+
+// iCalendar lines longer than 75 octets of UTF-8 must continue on lines starting with a
+// space (which counts towards the 75). Lines are only split between code points.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const codePoint of line) {
+    const size = utf8.encode(codePoint).length;
+    const limit = parts.length === 0 ? MAX_ICS_LINE_OCTETS : MAX_ICS_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += codePoint;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+}
+
+/**
+ * The plan as an iCalendar file with one event per stop.
+ */
+export function itineraryToIcs(itinerary: Itinerary, places: Place[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const events = itinerary.stops.flatMap((stop) => {
+    const place = places.find((candidate) => candidate.id === stop.placeId);
+    return [
+      'BEGIN:VEVENT',
+      `UID:${stop.id}@gemini-local-guide`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDateTime(itinerary.date, stop.startMinutes)}`,
+      `DTEND:${icsDateTime(itinerary.date, stopEndMinutes(stop))}`,
+      `SUMMARY:${icsText(stop.kind === 'meal' && !place ? stop.name : `${stop.kind === 'meal' ? 'Meal: ' : ''}${stop.name}`)}`,
+      ...(place?.address ? [`LOCATION:${icsText(place.address)}`] : []),
+      ...(place?.location ? [`GEO:${place.location.latitude};${place.location.longitude}`] : []),
+      ...(stop.note || place?.mapsUri ? [`DESCRIPTION:${icsText([stop.note, place?.mapsUri].filter(Boolean).join('\n'))}`] : []),
+      ...(place?.mapsUri ? [`URL:${place.mapsUri}`] : []),
+      'END:VEVENT',
+    ];
+  });
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Gemini Local Guide//Itinerary//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+    '',
+  ].map(foldLine).join('\r\n');
+}
+
+/**
+ * The plan as a Markdown timeline.
+ */
+export function itineraryToMarkdown(itinerary: Itinerary, places: Place[]): string {
+  const lines = [`# Itinerary for ${itinerary.date}`, ''];
+  if (itinerary.summary) {
+    lines.push(itinerary.summary, '');
+  }
+  itinerary.stops.forEach((stop) => {
+    const place = places.find((candidate) => candidate.id === stop.placeId);
+    const travel = stop.travelMinutes > 0 ? ` (${stop.travelMinutes} min travel before)` : '';
+    const name = place?.mapsUri ? `[${stop.name}](${place.mapsUri})` : stop.name;
+    lines.push(`- **${formatTime(stop.startMinutes)}–${formatTime(stopEndMinutes(stop))}** ${stop.kind === 'meal' ? '🍽 ' : ''}${name}${travel}`);
+    if (stop.note) {
+      lines.push(`  ${stop.note}`);
+    }
+  });
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,96 @@
+import { LivePersona, LiveSettings } from "../types";
+
+/** The prebuilt voices of the Live API, with the style Google describes them by. */
+export const LIVE_VOICES: { name: string; style: string }[] = [
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Callirrhoe', style: 'Easy-going' },
+  { name: 'Autonoe', style: 'Bright' },
+  { name: 'Enceladus', style: 'Breathy' },
+  { name: 'Iapetus', style: 'Clear' },
+  { name: 'Umbriel', style: 'Easy-going' },
+  { name: 'Algieba', style: 'Smooth' },
+  { name: 'Despina', style: 'Smooth' },
+  { name: 'Erinome', style: 'Clear' },
+  { name: 'Algenib', style: 'Gravelly' },
+  { name: 'Rasalgethi', style: 'Informative' },
+  { name: 'Laomedeia', style: 'Upbeat' },
+  { name: 'Achernar', style: 'Soft' },
+  { name: 'Alnilam', style: 'Firm' },
+  { name: 'Schedar', style: 'Even' },
+  { name: 'Gacrux', style: 'Mature' },
+  { name: 'Pulcherrima', style: 'Forward' },
+  { name: 'Achird', style: 'Friendly' },
+  { name: 'Zubenelgenubi', style: 'Casual' },
+  { name: 'Vindemiatrix', style: 'Gentle' },
+  { name: 'Sadachbia', style: 'Lively' },
+  { name: 'Sadaltager', style: 'Knowledgeable' },
+  { name: 'Sulafat', style: 'Warm' },
+];
+
+/** Languages the assistant can be told to speak; '' lets it answer in the user's language. */
+export const LIVE_LANGUAGES: { code: string; name: string }[] = [
+  { code: '', name: 'Same as the user' },
+  { code: 'en-US', name: 'English (US)' },
+  { code: 'en-GB', name: 'English (UK)' },
+  { code: 'en-IN', name: 'English (India)' },
+  { code: 'de-DE', name: 'German' },
+  { code: 'fr-FR', name: 'French' },
+  { code: 'es-ES', name: 'Spanish (Spain)' },
+  { code: 'es-US', name: 'Spanish (Latin America)' },
+  { code: 'it-IT', name: 'Italian' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'nl-NL', name: 'Dutch' },
+  { code: 'pl-PL', name: 'Polish' },
+  { code: 'ru-RU', name: 'Russian' },
+  { code: 'tr-TR', name: 'Turkish' },
+  { code: 'ar-EG', name: 'Arabic' },
+  { code: 'hi-IN', name: 'Hindi' },
+  { code: 'ja-JP', name: 'Japanese' },
+  { code: 'ko-KR', name: 'Korean' },
+  { code: 'cmn-CN', name: 'Mandarin Chinese' },
+  { code: 'id-ID', name: 'Indonesian' },
+  { code: 'th-TH', name: 'Thai' },
+  { code: 'vi-VN', name: 'Vietnamese' },
+];
+
+// The proxy server refuses longer persona instructions
+export const MAX_LIVE_INSTRUCTION_LENGTH = 2000;
+
+export const BUILT_IN_PERSONAS: LivePersona[] = [
+  {
+    id: 'assistant',
+    name: 'Friendly assistant',
+    instruction: 'You are a friendly and helpful assistant, ready to chat.',
+    builtIn: true,
+  },
+  {
+    id: 'tour-guide',
+    name: 'Local tour guide',
+    instruction: 'You are an enthusiastic local tour guide. Suggest sights, walks and hidden gems, tell short stories about the places you mention, and give practical tips such as opening hours, how to get there and the best time to visit.',
+    builtIn: true,
+  },
+  {
+    id: 'food-critic',
+    name: 'Food critic',
+    instruction: 'You are a witty, opinionated food critic. Recommend places to eat and drink, describe dishes vividly, say honestly what is overrated, and always mention price level and what to order.',
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_LIVE_SETTINGS: LiveSettings = {
+  voiceName: 'Zephyr',
+  personaId: BUILT_IN_PERSONAS[0].id,
+  instruction: BUILT_IN_PERSONAS[0].instruction,
+  languageCode: '',
+};
+
+export function liveLanguageName(code: string): string {
+  return LIVE_LANGUAGES.find((language) => language.code === code)?.name || code;
+}
@@ -0,0 +1,72 @@
+import { LivePersona, LiveSettings } from "../types";
+import { getAll, getOne, put, remove, generateId } from "./db";
+import { BUILT_IN_PERSONAS, DEFAULT_LIVE_SETTINGS, LIVE_LANGUAGES, LIVE_VOICES } from "./liveSettings";
+
+// The settings store holds one record per feature, keyed by this id
+const SETTINGS_ID = 'live';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+/**
+ * Subscribes to any change in the Live settings or personas. Returns an unsubscribe function.
+ */
+export function subscribeLiveSettings(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * The saved settings, falling back to the defaults for anything missing or no longer
+ * offered, e.g. a voice that was removed.
+ */
+export async function getLiveSettings(): Promise<LiveSettings> {
+  const stored = await getOne<LiveSettings & { id: string }>('settings', SETTINGS_ID);
+  if (!stored) {
+    return DEFAULT_LIVE_SETTINGS;
+  }
+  return {
+    voiceName: LIVE_VOICES.some((voice) => voice.name === stored.voiceName) ? stored.voiceName : DEFAULT_LIVE_SETTINGS.voiceName,
+    personaId: stored.personaId || DEFAULT_LIVE_SETTINGS.personaId,
+    instruction: stored.instruction?.trim() ? stored.instruction : DEFAULT_LIVE_SETTINGS.instruction,
+    languageCode: LIVE_LANGUAGES.some((language) => language.code === stored.languageCode) ? stored.languageCode : '',
+  };
+}
+
+export async function saveLiveSettings(settings: LiveSettings): Promise<void> {
+  await put('settings', { ...settings, id: SETTINGS_ID });
+  notify();
+}
+
+/** The built-in personas first, then the user's own by name. */
+export async function getLivePersonas(): Promise<LivePersona[]> {
+  const custom = await getAll<LivePersona>('livePersonas');
+  return [...BUILT_IN_PERSONAS, ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+export async function createLivePersona(name: string, instruction: string): Promise<LivePersona> {
+  const persona: LivePersona = { id: generateId('persona'), name: name.trim(), instruction: instruction.trim(), builtIn: false };
+  await put('livePersonas', persona);
+  notify();
+  return persona;
+}
+
+export async function updateLivePersona(id: string, instruction: string): Promise<void> {
+  const persona = await getOne<LivePersona>('livePersonas', id);
+  if (!persona) {
+    throw new Error('This persona no longer exists.');
+  }
+  await put('livePersonas', { ...persona, instruction: instruction.trim() });
+  notify();
+}
+
+export async function deleteLivePersona(id: string): Promise<void> {
+  await remove('livePersonas', id);
+  notify();
+}
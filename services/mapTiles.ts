@@ -0,0 +1,36 @@
+/**
+ * Tile source configuration for the Local Guide map.
+ *
+ * Set `MAP_TILE_URL` in .env.local to a `{z}/{x}/{y}` URL template to use another tile
+ * server, e.g. `/tiles/{z}/{x}/{y}.png` for tiles copied into `public/tiles`, or to
+ * `offline` to draw the map on a plain grid without requesting any tiles.
+ */
+
+const DEFAULT_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const DEFAULT_ATTRIBUTION = '© OpenStreetMap contributors';
+
+export interface TileSource {
+  urlTemplate: string | null; // null when running offline
+  attribution: string;
+}
+
+export function getTileSource(): TileSource {
+  const configured = (process.env.MAP_TILE_URL || '').trim();
+  if (configured.toLowerCase() === 'offline') {
+    return { urlTemplate: null, attribution: 'Offline map' };
+  }
+  if (configured) {
+    return { urlTemplate: configured, attribution: process.env.MAP_TILE_ATTRIBUTION || '' };
+  }
+  return { urlTemplate: DEFAULT_TILE_URL, attribution: DEFAULT_ATTRIBUTION };
+}
+
+export function getTileUrl(source: TileSource, x: number, y: number, z: number): string | null {
+  if (!source.urlTemplate) {
+    return null;
+  }
+  return source.urlTemplate
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+}
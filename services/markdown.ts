@@ -0,0 +1,407 @@
+/**
+ * Small markdown parser for model output. It produces a plain syntax tree that the
+ * `Markdown` component renders as React elements, so no model text is ever parsed as
+ * HTML: raw tags come out as literal text and only http(s) and mailto links survive.
+ *
+ * Supported: ATX headings, paragraphs, emphasis, strikethrough, inline code, fenced code
+ * blocks, nested ordered and unordered lists, blockquotes, GFM tables, horizontal rules,
+ * links, autolinks and bare URLs. Citation markers added by `withCitationMarkers` are
+ * parsed into their own inline node.
+ */
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'break' }
+  | { type: 'citation'; sources: number[] };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type Block =
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { type: 'blockquote'; children: Block[] }
+  | { type: 'table'; align: TableAlign[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'rule' };
+
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING_REGEX = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_REGEX = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE_REGEX = /^\s{0,3}>\s?/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const SAFE_URL_REGEX = /^(https?:\/\/|mailto:)/i;
+const BARE_URL_REGEX = /^https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_~]/i;
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~<>"\'';
+// Private-use characters around the source numbers of a citation marker
+const CITATION_OPEN = '\uE000';
+const CITATION_CLOSE = '\uE001';
+const CITATION_REGEX = /^\uE000(\d+(?:,\d+)*)\uE001/;
+
+/**
+ * Returns the URL if it is safe to link to (http, https or mailto), else null.
+ */
+export function sanitizeUrl(url: string): string | null {
+  const trimmed = url.trim().replace(/^<|>$/g, '');
+  return SAFE_URL_REGEX.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Inserts citation markers into markdown at the given character offsets, so they
+ * survive parsing and come out as `citation` nodes.
+ */
+export function withCitationMarkers(text: string, citations: { offset: number; sourceNumbers: number[] }[]): string {
+  let marked = text;
+  // From the end, so earlier offsets stay valid
+  [...citations].sort((a, b) => b.offset - a.offset).forEach(({ offset, sourceNumbers }) => {
+    if (sourceNumbers.length === 0 || offset > marked.length) return;
+    marked = marked.slice(0, offset) + CITATION_OPEN + sourceNumbers.join(',') + CITATION_CLOSE + marked.slice(offset);
+  });
+  return marked;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return lines[index].includes('|') && index + 1 < lines.length && TABLE_SEPARATOR_REGEX.test(lines[index + 1]) && lines[index + 1].includes('-');
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return FENCE_REGEX.test(line) || HEADING_REGEX.test(line) || RULE_REGEX.test(line) || BLOCKQUOTE_REGEX.test(line)
+    || LIST_ITEM_REGEX.test(line) || isTableStart(lines, index);
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  // Split on pipes that are not escaped
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function parseAlign(cell: string): TableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+}
+
+function dedent(lines: string[], amount: number): string[] {
+  return lines.map((line) => line.slice(Math.min(amount, indentOf(line))));
+}
+
+/**
+ * Parses a list starting at `index`. Lines indented deeper than the marker belong to the
+ * current item (nested lists, continuation paragraphs, code); a marker at the same
+ * indent starts the next item.
+ */
+function parseList(lines: string[], index: number): { block: Block; next: number } {
+  const first = lines[index].match(LIST_ITEM_REGEX)!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let i = index;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM_REGEX);
+    if (!match || match[1].length !== baseIndent || /\d/.test(match[2]) !== ordered) {
+      break;
+    }
+    const itemLines = [match[3]];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        // A blank line continues the item only if indented content follows
+        let nextContent = i + 1;
+        while (nextContent < lines.length && isBlank(lines[nextContent])) nextContent++;
+        if (nextContent < lines.length && indentOf(lines[nextContent]) > baseIndent) {
+          itemLines.push('');
+          i++;
+          continue;
+        }
+        break;
+      }
+      if (indentOf(line) > baseIndent) {
+        itemLines.push(line);
+        i++;
+        continue;
+      }
+      // Lazy continuation of the item's text
+      if (!startsBlock(lines, i) && !isBlank(lines[i - 1])) {
+        itemLines.push(line.trim());
+        i++;
+        continue;
+      }
+      break;
+    }
+    const childIndent = Math.min(...itemLines.slice(1).filter((line) => !isBlank(line) && indentOf(line) > 0).map(indentOf), Infinity);
+    items.push([itemLines[0], ...dedent(itemLines.slice(1), Number.isFinite(childIndent) ? childIndent : 0)]);
+
+    // Skip blank lines between items of the same list
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    const nextMatch = next < lines.length ? lines[next].match(LIST_ITEM_REGEX) : null;
+    if (next !== i && nextMatch && nextMatch[1].length === baseIndent && /\d/.test(nextMatch[2]) === ordered) {
+      i = next;
+    }
+  }
+
+  return {
+    block: {
+      type: 'list',
+      ordered,
+      start: ordered ? parseInt(first[2], 10) : 1,
+      items: items.map(parseBlockLines),
+    },
+    next: i,
+  };
+}
+
+function parseBlockLines(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_REGEX);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence (or end of input)
+      blocks.push({ type: 'code', language: fence[2], code: dedent(code, indentOf(line)).join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE_REGEX.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE_REGEX.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && BLOCKQUOTE_REGEX.test(lines[i])) {
+        quoted.push(lines[i].replace(BLOCKQUOTE_REGEX, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlockLines(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseAlign);
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] || '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, column) => align[column] || null), header: header.map(parseInline), rows });
+      continue;
+    }
+
+    if (LIST_ITEM_REGEX.test(line)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(markdown: string): Block[] {
+  return parseBlockLines(markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Finds the closing delimiter for emphasis starting at `from`, skipping code spans.
+ */
+function findClosing(text: string, delimiter: string, from: number): number {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        i = end + run.length;
+        continue;
+      }
+    }
+    if (text.startsWith(delimiter, i) && i > from && !/\s/.test(text[i - 1])) {
+      // A single delimiter must not be half of a double one
+      const single = delimiter.length === 1;
+      if (!single || (text[i + 1] !== delimiter && text[i - 1] !== delimiter)) {
+        if (delimiter[0] !== '_' || !isWordChar(text[i + delimiter.length])) {
+          return i;
+        }
+      }
+    }
+    i++;
+  }
+  return -1;
+}
+
+export function parseInline(text: string): Inline[] {
+  const nodes: Inline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === CITATION_OPEN) {
+      const citation = rest.match(CITATION_REGEX);
+      if (citation) {
+        flush();
+        nodes.push({ type: 'citation', sources: citation[1].split(',').map(Number) });
+        i += citation[0].length;
+        continue;
+      }
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = rest.match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + run.length, end).trim() || text.slice(i + run.length, end) });
+        i = end + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    const double = rest.startsWith('**') ? '**' : rest.startsWith('__') ? '__' : rest.startsWith('~~') ? '~~' : null;
+    if (double && !/\s/.test(text[i + 2] || ' ') && (double !== '__' || !isWordChar(text[i - 1]))) {
+      const end = findClosing(text, double, i + 2);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: double === '~~' ? 'del' : 'strong', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_') && !double && !/\s/.test(text[i + 1] || ' ') && (char !== '_' || !isWordChar(text[i - 1]))) {
+      const end = findClosing(text, char, i + 1);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = rest.match(/^\[((?:\\.|[^\]\\])*)\]\(\s*(<[^>]*>|(?:[^\s()]|\([^\s()]*\))+)(?:\s+"[^"]*")?\s*\)/);
+      if (link) {
+        flush();
+        const href = sanitizeUrl(link[2]);
+        const children = parseInline(link[1]);
+        if (href) {
+          nodes.push({ type: 'link', href, children });
+        } else {
+          nodes.push(...children); // Unsafe or relative link: keep only its text
+        }
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const autolink = rest.match(/^<((?:https?:\/\/|mailto:)[^\s>]+)>/i);
+      if (autolink) {
+        flush();
+        nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1].replace(/^mailto:/i, '') }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && !isWordChar(text[i - 1])) {
+      const url = rest.match(BARE_URL_REGEX);
+      if (url) {
+        flush();
+        nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
@@ -0,0 +1,13 @@
+/**
+ * Model names used by each mode. Keep them here so providers, fixtures and the
+ * UI agree on which model served a request.
+ */
+export const MODELS = {
+  placesGrounding: 'gemini-2.5-flash', // Using flash for general text tasks with grounding
+  generalChat: 'gemini-2.5-flash-lite', // Low-latency model
+  imageAnalysis: 'gemini-2.5-flash', // Image understanding model
+  complexReasoning: 'gemini-2.5-pro', // Model for complex reasoning
+  liveAudio: 'gemini-2.5-flash-native-audio-preview-09-2025',
+} as const;
+
+export const COMPLEX_REASONING_THINKING_BUDGET = 32768; // Max thinking budget for 2.5 Pro
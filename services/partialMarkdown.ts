@@ -0,0 +1,32 @@
+/**
+ * Closes markdown left open by a response that is still streaming, so a half-received
+ * code block, bold run or inline code renders as one instead of leaking its markers
+ * (or swallowing the rest of the message once the closing marker arrives).
+ */
+export function closePartialMarkdown(text: string): string {
+  const fenceCount = (text.match(/^\s*```/gm) || []).length;
+  if (fenceCount % 2 === 1) {
+    return `${text}\n\`\`\``; // Inline markers inside an open code block are literal
+  }
+
+  // Only the text outside code blocks counts for inline markers
+  const outsideCode = text.replace(/^\s*```[\s\S]*?^\s*```/gm, '');
+  const lastParagraph = outsideCode.split(/\n\s*\n/).pop() || '';
+
+  // A link whose URL has not fully arrived is dropped until it has
+  let closed = text.replace(/\[[^\]\n]*(\]\([^)\s]*)?$/, '');
+
+  const withoutCode = lastParagraph.replace(/`[^`\n]*`/g, '');
+  if ((withoutCode.match(/`/g) || []).length % 2 === 1) {
+    return `${closed}\``;
+  }
+  if ((withoutCode.match(/\*\*/g) || []).length % 2 === 1) {
+    closed += '**';
+  }
+  // Single asterisks that are not list bullets or part of a bold marker
+  const italics = withoutCode.replace(/\*\*/g, '').replace(/^\s*\*\s/gm, '').match(/\*/g) || [];
+  if (italics.length % 2 === 1) {
+    closed += '*';
+  }
+  return closed;
+}
@@ -0,0 +1,354 @@
+import { Place } from "../types";
+import { getPlaceReviews, normalizePlaceName, placeFromFields } from "./placeParser";
+
+export type ExportFormat = 'geojson' | 'kml' | 'gpx' | 'csv';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+};
+
+export interface PlaceExportRecord {
+  place: Place;
+  sourceLinks: string[]; // Review links and cited sources; the Maps URI is exported separately
+  note: string;
+  tags: string[];
+}
+
+export interface ImportedPlace {
+  place: Place;
+  note: string;
+  tags: string[];
+}
+
+const CSV_COLUMNS = [
+  'name', 'category', 'summary', 'rating', 'ratingScale', 'reviewCount', 'address',
+  'latitude', 'longitude', 'mapsUri', 'sourceLinks', 'note', 'tags', 'placeId',
+] as const;
+
+type Column = typeof CSV_COLUMNS[number];
+
+// Other tools' names for the columns we read back in
+const FIELD_ALIASES: Partial<Record<Column, string[]>> = {
+  name: ['title'],
+  category: ['type'],
+  summary: ['description'],
+  latitude: ['lat'],
+  longitude: ['lng', 'lon', 'long'],
+  mapsUri: ['url', 'link'],
+};
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX_REGEX = /^[=+\-@\t\r]/;
+
+/**
+ * Builds an export record. `extraLinks` are sources cited for the place in the answer
+ * it came from; review links are taken from the place's grounding chunk.
+ */
+export function toExportRecord(
+  place: Place,
+  extraLinks: string[] = [],
+  saved: { note: string; tags: string[] } = { note: '', tags: [] },
+): PlaceExportRecord {
+  const reviewLinks = getPlaceReviews(place).map((review) => review.link).filter((link): link is string => !!link);
+  const sourceLinks = Array.from(new Set([...reviewLinks, ...extraLinks])).filter((link) => link !== place.mapsUri);
+  return { place, sourceLinks, note: saved.note, tags: saved.tags };
+}
+
+export function exportFilename(baseName: string, format: ExportFormat): string {
+  const slug = normalizePlaceName(baseName).replace(/ /g, '-') || 'places';
+  return `${slug}-${new Date().toISOString().slice(0, 10)}.${EXPORT_FORMATS[format].extension}`;
+}
+
+function recordFields({ place, sourceLinks, note, tags }: PlaceExportRecord): Record<Column, string | number | null> {
+  return {
+    name: place.name,
+    category: place.category || null,
+    summary: place.summary || null,
+    rating: place.rating,
+    ratingScale: place.ratingScale,
+    reviewCount: place.reviewCount,
+    address: place.address || null,
+    latitude: place.location?.latitude ?? null,
+    longitude: place.location?.longitude ?? null,
+    mapsUri: place.mapsUri,
+    sourceLinks: sourceLinks.join(' '),
+    note: note || null,
+    tags: tags.join(', '),
+    placeId: place.id,
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function describe({ place }: PlaceExportRecord): string {
+  const rating = place.rating !== null ? `Rating: ${place.rating}${place.ratingScale ? ` / ${place.ratingScale}` : ''}` : '';
+  const reviews = place.reviewCount !== null ? `${place.reviewCount} reviews` : '';
+  return [place.summary, [rating, reviews].filter(Boolean).join(', ')].filter(Boolean).join('\n');
+}
+
+function toGeoJson(records: PlaceExportRecord[], name: string): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    name,
+    features: records.map((record) => {
+      // Coordinates go in the geometry; lists stay arrays rather than joined strings
+      const properties = Object.fromEntries(
+        Object.entries(recordFields(record)).filter(([key]) => key !== 'latitude' && key !== 'longitude'),
+      );
+      const location = record.place.location;
+      return {
+        type: 'Feature',
+        id: record.place.id,
+        // GeoJSON allows features without a location
+        geometry: location ? { type: 'Point', coordinates: [location.longitude, location.latitude] } : null,
+        properties: { ...properties, sourceLinks: record.sourceLinks, tags: record.tags },
+      };
+    }),
+  }, null, 2);
+}
+
+function toKml(records: PlaceExportRecord[], name: string): string {
+  const placemarks = records.map((record) => {
+    const { place } = record;
+    const data = Object.entries(recordFields(record))
+      .filter(([key, value]) => value !== null && value !== '' && key !== 'name' && key !== 'latitude' && key !== 'longitude')
+      .map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`)
+      .join('\n');
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(place.name)}</name>`,
+      place.address ? `      <address>${escapeXml(place.address)}</address>` : '',
+      `      <description>${escapeXml(describe(record))}</description>`,
+      data ? `      <ExtendedData>\n${data}\n      </ExtendedData>` : '',
+      place.location ? `      <Point><coordinates>${place.location.longitude},${place.location.latitude},0</coordinates></Point>` : '',
+      '    </Placemark>',
+    ].filter(Boolean).join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+// GPX waypoints need coordinates, so places without a known location are left out
+function toGpx(records: PlaceExportRecord[], name: string): string {
+  const waypoints = records.filter((record) => record.place.location).map((record) => {
+    const { place } = record;
+    const links = [place.mapsUri, ...record.sourceLinks].filter((link): link is string => !!link);
+    return [
+      `  <wpt lat="${place.location!.latitude}" lon="${place.location!.longitude}">`,
+      `    <name>${escapeXml(place.name)}</name>`,
+      record.note ? `    <cmt>${escapeXml(record.note)}</cmt>` : '',
+      `    <desc>${escapeXml(describe(record))}</desc>`,
+      ...links.map((link) => `    <link href="${escapeXml(link)}"/>`),
+      place.category ? `    <type>${escapeXml(place.category)}</type>` : '',
+      '  </wpt>',
+    ].filter(Boolean).join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Gemini Local Guide" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+    ...waypoints,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX_REGEX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(records: PlaceExportRecord[]): string {
+  const rows = records.map((record) => {
+    const fields = recordFields(record);
+    return CSV_COLUMNS.map((column) => csvCell(fields[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Serializes places in one of the export formats. `name` titles the collection where
+ * the format has a place for it.
+ */
+export function exportPlaces(records: PlaceExportRecord[], format: ExportFormat, name: string): string {
+  switch (format) {
+    case 'geojson':
+      return toGeoJson(records, name);
+    case 'kml':
+      return toKml(records, name);
+    case 'gpx':
+      return toGpx(records, name);
+    case 'csv':
+      return toCsv(records);
+  }
+}
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted cells may contain commas,
+ * quotes and line breaks).
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+// Looks a column up by its name or an alias, ignoring case
+function readField(fields: Record<string, unknown>, column: Column): unknown {
+  const names = [column, ...(FIELD_ALIASES[column] || [])].map((name) => name.toLowerCase());
+  const key = Object.keys(fields).find((field) => names.includes(field.trim().toLowerCase()));
+  return key !== undefined ? fields[key] : undefined;
+}
+
+function readList(value: unknown, separator: RegExp): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(separator) : [];
+  return items.filter((item): item is string => typeof item === 'string').map((item) => item.trim()).filter(Boolean);
+}
+
+function toImportedPlace(fields: Record<string, unknown>, index: number): ImportedPlace | null {
+  const value = (column: Column): unknown => {
+    const raw = readField(fields, column);
+    // Undo the formula guard added on export
+    return typeof raw === 'string' && raw.startsWith("'") && FORMULA_PREFIX_REGEX.test(raw.slice(1)) ? raw.slice(1) : raw;
+  };
+  const place = placeFromFields({
+    name: value('name'),
+    category: value('category'),
+    summary: value('summary'),
+    rating: value('rating'),
+    ratingScale: value('ratingScale'),
+    reviewCount: value('reviewCount'),
+    address: value('address'),
+    latitude: value('latitude'),
+    longitude: value('longitude'),
+  }, index);
+  if (!place) {
+    return null;
+  }
+  const placeId = value('placeId');
+  const mapsUri = value('mapsUri');
+  const note = value('note');
+  return {
+    place: {
+      ...place,
+      id: typeof placeId === 'string' && placeId.trim() ? placeId.trim() : place.id,
+      mapsUri: typeof mapsUri === 'string' && /^https?:\/\//i.test(mapsUri.trim()) ? mapsUri.trim() : null,
+    },
+    note: typeof note === 'string' ? note : '',
+    tags: readList(value('tags'), /,/),
+  };
+}
+
+// The members of a JSON object, or none for anything else
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function importGeoJson(text: string): ImportedPlace[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const root = asRecord(data);
+  const features = root.type === 'FeatureCollection' ? root.features : root.type === 'Feature' ? [root] : null;
+  if (!Array.isArray(features)) {
+    throw new Error('The file is not a GeoJSON feature collection.');
+  }
+  return features.flatMap((item: unknown, index: number) => {
+    const feature = asRecord(item);
+    const fields: Record<string, unknown> = { ...asRecord(feature.properties) };
+    const geometry = asRecord(feature.geometry);
+    const coordinates = geometry.type === 'Point' ? geometry.coordinates : null;
+    if (Array.isArray(coordinates) && coordinates.length >= 2) {
+      fields.longitude = coordinates[0];
+      fields.latitude = coordinates[1];
+    }
+    if (typeof feature.id === 'string' && readField(fields, 'placeId') === undefined) {
+      fields.placeId = feature.id;
+    }
+    const imported = toImportedPlace(fields, index);
+    return imported ? [imported] : [];
+  });
+}
+
+function importCsv(text: string): ImportedPlace[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header || readField(Object.fromEntries(header.map((name) => [name, true])), 'name') === undefined) {
+    throw new Error('The CSV file needs a header row with a "name" column.');
+  }
+  return rows.flatMap((row, index) => {
+    const imported = toImportedPlace(Object.fromEntries(header.map((name, column) => [name, row[column] ?? ''])), index);
+    return imported ? [imported] : [];
+  });
+}
+
+/**
+ * Reads places from a GeoJSON or CSV file, such as one written by `exportPlaces`.
+ * The format is chosen by file extension, falling back to the content. Rows without
+ * a name are skipped. Source links are not read back: an imported place keeps its
+ * Maps URI but has no grounding metadata.
+ */
+export function importPlaces(text: string, filename: string): ImportedPlace[] {
+  const isCsv = /\.csv$/i.test(filename) || (!/\.(geo)?json$/i.test(filename) && !text.trim().startsWith('{'));
+  const places = isCsv ? importCsv(text) : importGeoJson(text);
+  if (places.length === 0) {
+    throw new Error('No places with a name were found in the file.');
+  }
+  return places;
+}
@@ -0,0 +1,280 @@
+import { Amenity, GroundingChunk, LatLng, Place, PlaceReview, PriceRange } from "../types";
+
+/**
+ * Instruction appended to Local Guide prompts so the model returns a machine-readable
+ * copy of its list. Maps grounding cannot be combined with JSON response mode, so the
+ * structured data is requested as a fenced block. It comes before the prose so that
+ * streamed place cards appear as soon as each object is complete.
+ */
+export const PLACES_JSON_INSTRUCTION = `Begin your reply with a fenced \`\`\`json code block containing a JSON array with one object per place, in the same order as the numbered list. Each object must have these keys: "name" (string), "category" (string, e.g. 'Italian Restaurant'), "summary" (string, one or two sentences), "rating" (number or null), "ratingScale" (number or null, e.g. 5 for star ratings or 10 for scores), "reviewCount" (number or null), "priceLevel" ("$", "$$", "$$$", "$$$$" or null), "cuisine" (string or null, e.g. 'Italian'; null for places that do not serve food), "amenities" (array containing those of "Wi-Fi", "Outdoor Seating", "Pet-Friendly", "Parking" and "Wheelchair Accessible" that the place is known to offer), "address" (string or null), "latitude" (number or null), "longitude" (number or null). Then write the numbered list after the code block.`;
+
+const JSON_BLOCK_REGEX = /```json\s*([\s\S]*?)(?:```|$)/i;
+// The start of a fence that has not fully arrived yet, at the end of a streamed response
+const PARTIAL_FENCE_REGEX = /`{1,3}(?:j(?:s(?:on?)?)?)?$/i;
+
+export const AMENITIES: Amenity[] = ['Wi-Fi', 'Outdoor Seating', 'Pet-Friendly', 'Parking', 'Wheelchair Accessible'];
+const PRICE_LEVELS: Exclude<PriceRange, ''>[] = ['$', '$$', '$$$', '$$$$'];
+
+interface RawPlace {
+  name?: unknown;
+  category?: unknown;
+  summary?: unknown;
+  rating?: unknown;
+  ratingScale?: unknown;
+  reviewCount?: unknown;
+  priceLevel?: unknown;
+  cuisine?: unknown;
+  amenities?: unknown;
+  address?: unknown;
+  latitude?: unknown;
+  longitude?: unknown;
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/,/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Normalizes a place name for fuzzy comparison (case, accents and punctuation insensitive).
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Finds the Maps grounding chunk that best matches a place name: an exact normalized
+ * match first, then a chunk title containing (or contained in) the name.
+ */
+export function findGroundingChunkForPlace(name: string, chunks: GroundingChunk[]): GroundingChunk | null {
+  const target = normalizePlaceName(name);
+  if (!target) {
+    return null;
+  }
+  const mapsChunks = chunks.filter((chunk) => chunk.maps?.title);
+  const exact = mapsChunks.find((chunk) => normalizePlaceName(chunk.maps!.title!) === target);
+  if (exact) {
+    return exact;
+  }
+  return mapsChunks.find((chunk) => {
+    const title = normalizePlaceName(chunk.maps!.title!);
+    return title.length > 0 && (title.includes(target) || target.includes(title));
+  }) || null;
+}
+
+/**
+ * The review snippets in a place's Maps grounding chunk, without duplicates. Older
+ * API releases send the quote as `text` and the link as `link`; newer ones use `title`
+ * and `googleMapsUri`.
+ */
+export function getPlaceReviews(place: Place): PlaceReview[] {
+  const reviews: PlaceReview[] = [];
+  const seen = new Set<string>();
+  for (const snippet of place.groundingChunk?.maps?.placeAnswerSources?.reviewSnippets || []) {
+    const text = (snippet.text || snippet.title || '').trim();
+    if (!text || seen.has(text)) continue;
+    seen.add(text);
+    reviews.push({ text, link: snippet.link || snippet.googleMapsUri || null });
+  }
+  return reviews;
+}
+
+function asPriceLevel(value: unknown): Exclude<PriceRange, ''> | null {
+  const level = asString(value);
+  return PRICE_LEVELS.find((candidate) => candidate === level) || null;
+}
+
+// Matches reported amenities loosely ('wifi', 'parking lot'), keeping only known ones
+function asAmenities(value: unknown): Amenity[] {
+  if (!Array.isArray(value)) return [];
+  const reported = value.map((item) => normalizePlaceName(asString(item)).replace(/ /g, ''));
+  return AMENITIES.filter((amenity) => {
+    const key = normalizePlaceName(amenity).replace(/ /g, '');
+    return reported.some((item) => item && (item === key || item.startsWith(key) || key.startsWith(item)));
+  });
+}
+
+function asLatLng(latitude: unknown, longitude: unknown): LatLng | null {
+  const lat = asNumber(latitude);
+  const lng = asNumber(longitude);
+  if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180 || (lat === 0 && lng === 0)) {
+    return null;
+  }
+  return { latitude: lat, longitude: lng };
+}
+
+/**
+ * Builds a place from loosely typed fields (an imported file, for example), with the
+ * same validation as the model's JSON block but no grounding metadata.
+ */
+export function placeFromFields(raw: Record<string, unknown>, index: number): Place | null {
+  return toPlace(raw, index, []);
+}
+
+function toPlace(raw: RawPlace, index: number, chunks: GroundingChunk[]): Place | null {
+  const name = asString(raw.name);
+  if (!name) {
+    return null;
+  }
+  let rating = asNumber(raw.rating);
+  let ratingScale = asNumber(raw.ratingScale);
+  if (rating !== null && (rating <= 0 || rating > 10)) {
+    rating = null; // Basic validation for rating range
+  }
+  if (rating !== null && (ratingScale === null || ratingScale < rating)) {
+    ratingScale = rating <= 5 ? 5 : 10;
+  }
+  const reviewCount = asNumber(raw.reviewCount);
+  const groundingChunk = findGroundingChunkForPlace(name, chunks);
+
+  return {
+    id: groundingChunk?.maps?.placeId || `place-${normalizePlaceName(name).replace(/ /g, '-')}`,
+    rank: index + 1,
+    name,
+    category: asString(raw.category),
+    summary: asString(raw.summary),
+    rating,
+    ratingScale: rating !== null ? ratingScale : null,
+    reviewCount: reviewCount !== null && reviewCount >= 0 ? Math.round(reviewCount) : null,
+    priceLevel: asPriceLevel(raw.priceLevel),
+    cuisine: asString(raw.cuisine),
+    amenities: asAmenities(raw.amenities),
+    address: asString(raw.address),
+    location: asLatLng(raw.latitude, raw.longitude),
+    mapsUri: groundingChunk?.maps?.uri || null,
+    groundingChunk,
+  };
+}
+
+function toPlaces(items: unknown[], chunks: GroundingChunk[]): Place[] {
+  return items
+    .filter((item): item is RawPlace => typeof item === 'object' && item !== null)
+    .map((item, index) => toPlace(item, index, chunks))
+    .filter((place): place is Place => place !== null)
+    .map((place, index) => ({ ...place, rank: index + 1 }));
+}
+
+/**
+ * Returns the complete top-level values of a JSON array that may still be streaming,
+ * ignoring the unfinished value at the end.
+ */
+function completeArrayItems(json: string): unknown[] {
+  const items: unknown[] = [];
+  const arrayStart = json.indexOf('[');
+  if (arrayStart === -1) {
+    return items;
+  }
+  let depth = 0;
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = arrayStart + 1; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) itemStart = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      if (depth === 0) break; // End of the array
+      depth--;
+      if (depth === 0 && itemStart !== -1) {
+        try {
+          items.push(JSON.parse(json.slice(itemStart, i + 1)));
+        } catch {
+          // Skip a malformed item; the complete response gets the full parse
+        }
+        itemStart = -1;
+      }
+    }
+  }
+  return items;
+}
+
+function withoutJsonBlock(text: string, match: RegExpMatchArray): string {
+  return (text.slice(0, match.index) + text.slice(match.index! + match[0].length)).trim();
+}
+
+/**
+ * Builds places from the Maps grounding chunks alone, used when the model
+ * omitted (or garbled) the JSON block.
+ */
+function placesFromGroundingChunks(chunks: GroundingChunk[]): Place[] {
+  const seen = new Set<string>();
+  const places: Place[] = [];
+  for (const chunk of chunks) {
+    const title = chunk.maps?.title;
+    if (!title || seen.has(normalizePlaceName(title))) {
+      continue;
+    }
+    seen.add(normalizePlaceName(title));
+    const place = toPlace({ name: title }, places.length, [chunk]);
+    if (place) {
+      places.push(place);
+    }
+  }
+  return places;
+}
+
+/**
+ * Splits a Local Guide response into the prose shown to the user and the
+ * structured list of places.
+ */
+export function parsePlacesResponse(text: string, groundingChunks: GroundingChunk[] = []): { text: string; places: Place[] } {
+  const match = text.match(JSON_BLOCK_REGEX);
+  const prose = match ? withoutJsonBlock(text, match) : text.trim();
+
+  if (match) {
+    try {
+      const parsed = JSON.parse(match[1]);
+      if (Array.isArray(parsed)) {
+        const places = toPlaces(parsed, groundingChunks);
+        if (places.length > 0) {
+          return { text: prose, places };
+        }
+      }
+    } catch (err) {
+      console.warn("Could not parse places JSON block:", err);
+    }
+  }
+
+  return { text: prose, places: placesFromGroundingChunks(groundingChunks) };
+}
+
+/**
+ * Like `parsePlacesResponse`, for a response that is still streaming: returns the
+ * places whose JSON objects are already complete and the prose received so far.
+ * Grounding chunks usually arrive with the last chunk, so there is no fallback to them here.
+ */
+export function parsePartialPlacesResponse(text: string, groundingChunks: GroundingChunk[] = []): { text: string; places: Place[] } {
+  const match = text.match(JSON_BLOCK_REGEX);
+  if (!match) {
+    return { text: text.replace(PARTIAL_FENCE_REGEX, '').trim(), places: [] };
+  }
+  return {
+    text: withoutJsonBlock(text, match).replace(PARTIAL_FENCE_REGEX, '').trim(),
+    places: toPlaces(completeArrayItems(match[1]), groundingChunks),
+  };
+}
@@ -0,0 +1,75 @@
+import { LatLng, Place } from "../types";
+import { distanceMeters } from "./geo";
+
+export type SortOrder = 'default' | 'highest-rated' | 'lowest-rated' | 'nearest' | 'best-nearby';
+
+export const SORT_ORDER_LABELS: Record<SortOrder, string> = {
+  'default': 'Default Order',
+  'highest-rated': 'Highest Rated',
+  'lowest-rated': 'Lowest Rated',
+  'nearest': 'Nearest',
+  'best-nearby': 'Best Nearby',
+};
+
+// Distance at which the proximity part of the "best nearby" score has halved
+const BEST_NEARBY_HALF_DISTANCE_METERS = 1500;
+// How much the rating counts against proximity in the "best nearby" score
+const BEST_NEARBY_RATING_WEIGHT = 0.6;
+// Used for places without a rating so they are neither rewarded nor buried
+const NEUTRAL_RATING = 0.5;
+
+/**
+ * Ratings come on different scales ('4.5 stars', '8/10'), so compare them as a fraction of their scale.
+ */
+export function normalizedRating(place: Place): number | null {
+  return place.rating !== null && place.ratingScale ? place.rating / place.ratingScale : null;
+}
+
+export function placeDistanceMeters(place: Place, origin: LatLng | null): number | null {
+  return origin && place.location ? distanceMeters(origin, place.location) : null;
+}
+
+/**
+ * Combined score in [0, 1] that weighs a place's rating against how far away it is.
+ * Returns null when the distance is unknown.
+ */
+export function bestNearbyScore(place: Place, origin: LatLng | null): number | null {
+  const meters = placeDistanceMeters(place, origin);
+  if (meters === null) {
+    return null;
+  }
+  const proximity = Math.pow(0.5, meters / BEST_NEARBY_HALF_DISTANCE_METERS);
+  const rating = normalizedRating(place) ?? NEUTRAL_RATING;
+  return BEST_NEARBY_RATING_WEIGHT * rating + (1 - BEST_NEARBY_RATING_WEIGHT) * proximity;
+}
+
+// Sorts by a key, keeping places without a value at the end in their original order
+function sortByKey(places: Place[], key: (place: Place) => number | null, direction: 1 | -1): Place[] {
+  return [...places].sort((a, b) => {
+    const aValue = key(a);
+    const bValue = key(b);
+    if (aValue === null && bValue === null) return a.rank - b.rank;
+    if (aValue === null) return 1; // Nulls last
+    if (bValue === null) return -1; // Nulls last
+    return (aValue - bValue) * direction || a.rank - b.rank;
+  });
+}
+
+/**
+ * Returns a sorted copy of the places. `origin` is needed for the distance-based orders.
+ */
+export function sortPlaces(places: Place[], order: SortOrder, origin: LatLng | null): Place[] {
+  switch (order) {
+    case 'highest-rated':
+      return sortByKey(places, normalizedRating, -1);
+    case 'lowest-rated':
+      return sortByKey(places, normalizedRating, 1);
+    case 'nearest':
+      return sortByKey(places, (place) => placeDistanceMeters(place, origin), 1);
+    case 'best-nearby':
+      return sortByKey(places, (place) => bestNearbyScore(place, origin), -1);
+    default:
+      // Default order (the model's ranking)
+      return [...places].sort((a, b) => a.rank - b.rank);
+  }
+}
@@ -0,0 +1,483 @@
+import {
+  FinishReason,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GroundingChunk,
+  GroundingMetadata,
+  GroundingSupport,
+  LiveConnectParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+  Part,
+  Tool,
+} from "@google/genai";
+import { LiveSession, ModelProvider } from "./modelProvider";
+import { MODELS } from "../models";
+
+/**
+ * Deterministic offline provider. It returns canned but realistically shaped responses
+ * (grounding metadata, usage metadata, Live transcriptions and audio) so the whole UI can
+ * be developed and tested without network access or an API key. The same request
+ * always produces the same response.
+ */
+
+const DEFAULT_ORIGIN = { latitude: 48.8566, longitude: 2.3522 };
+
+// A simulated Live turn is produced after this many microphone chunks (~3 s of audio)
+const LIVE_CHUNKS_PER_TURN = 12;
+const LIVE_OUTPUT_SAMPLE_RATE = 24000;
+// Streamed responses are cut into chunks of about this many characters, one every few ms
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 30;
+
+const NAME_PREFIXES = ['Golden', 'Corner', 'Little', 'Old Town', 'Riverside', 'Blue Door', 'Market Street', 'Hidden', 'Sunny', 'Harbor'];
+const CUISINES = ['Italian', 'French', 'Japanese', 'Mexican', 'Indian', 'Mediterranean'];
+const AMENITY_NAMES = ['Wi-Fi', 'Outdoor Seating', 'Pet-Friendly', 'Parking', 'Wheelchair Accessible'];
+const REVIEW_PHRASES = [
+  'Friendly staff and a relaxed atmosphere.',
+  'Worth the wait, we will definitely come back.',
+  'Great value for the price.',
+  'Busy on weekends but the quality is consistent.',
+  'A local favourite with a cosy interior.',
+];
+const CHAT_REPLIES = [
+  'That is a great question. In short: it depends on what you value most, but here is a quick overview.',
+  'Sure! Here is what I would suggest.',
+  'Good point. Let me break that down.',
+];
+
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast and good enough for deterministic fake data
+function seededRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function collectParts(contents: unknown): Part[] {
+  if (typeof contents === 'string') return [{ text: contents }];
+  if (Array.isArray(contents)) return contents.flatMap(collectParts);
+  if (contents && typeof contents === 'object') {
+    if ('parts' in contents && Array.isArray(contents.parts)) return contents.parts.flatMap(collectParts);
+    return [contents as Part];
+  }
+  return [];
+}
+
+// Callable tools are resolved by the SDK before a request is sent, so only plain ones arrive here
+function toolsOf(params: GenerateContentParameters): Tool[] {
+  return (params.config?.tools || []) as Tool[];
+}
+
+function promptText(params: GenerateContentParameters): string {
+  return collectParts(params.contents)
+    .map((part) => (typeof part.text === 'string' ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+function buildResponse(text: string, prompt: string, groundingMetadata?: GroundingMetadata): GenerateContentResponse {
+  const response = new GenerateContentResponse();
+  response.candidates = [{
+    content: { role: 'model', parts: [{ text }] },
+    finishReason: FinishReason.STOP,
+    index: 0,
+    ...(groundingMetadata ? { groundingMetadata } : {}),
+  }];
+  // Roughly four characters per token, like the real tokenizer on English text
+  const promptTokenCount = Math.ceil(prompt.length / 4);
+  const candidatesTokenCount = Math.ceil(text.length / 4);
+  response.usageMetadata = { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount };
+  response.modelVersion = 'fake';
+  return response;
+}
+
+/**
+ * Splits a complete response into streamed chunks on word boundaries. Only the last
+ * chunk carries the finish reason, grounding metadata and usage metadata, as with the real API.
+ */
+function splitIntoChunks(response: GenerateContentResponse): GenerateContentResponse[] {
+  const text = response.text || '';
+  const pieces = text.match(new RegExp(`[\\s\\S]{1,${STREAM_CHUNK_SIZE}}(?=\\s|$)|[\\s\\S]{1,${STREAM_CHUNK_SIZE}}`, 'g')) || [''];
+  return pieces.map((piece, index) => {
+    const isLast = index === pieces.length - 1;
+    const chunk = new GenerateContentResponse();
+    const candidate = response.candidates![0];
+    chunk.candidates = [{
+      content: { role: 'model', parts: [{ text: piece }] },
+      index: 0,
+      ...(isLast ? { finishReason: candidate.finishReason, groundingMetadata: candidate.groundingMetadata } : {}),
+    }];
+    if (isLast) {
+      chunk.usageMetadata = response.usageMetadata;
+    }
+    chunk.modelVersion = response.modelVersion;
+    return chunk;
+  });
+}
+
+function titleCase(text: string): string {
+  return text.replace(/\b\w/g, (letter) => letter.toUpperCase());
+}
+
+function placesResponse(params: GenerateContentParameters, prompt: string): GenerateContentResponse {
+  const random = seededRandom(prompt);
+  const tools = toolsOf(params);
+  const usesMaps = tools.some((tool) => tool.googleMaps);
+  const usesSearch = tools.some((tool) => tool.googleSearch);
+  const latLng = params.config?.toolConfig?.retrievalConfig?.latLng;
+  const origin = latLng?.latitude !== undefined && latLng.longitude !== undefined
+    ? { latitude: latLng.latitude, longitude: latLng.longitude }
+    : DEFAULT_ORIGIN;
+  const query = prompt.match(/most recommended and commented (.+?),/)?.[1] || 'places';
+  const noun = titleCase(query.replace(/\b(near me|nearby|around me)\b/gi, '').trim().split(/\s+/).slice(-1)[0] || 'Spot')
+    .replace(/s$/, '');
+
+  const cuisineFilter = prompt.match(/Specializing in (.+?) cuisine/)?.[1];
+  const places = NAME_PREFIXES.map((prefix, index) => {
+    const rating = Math.round((3.8 + random() * 1.1) * 10) / 10;
+    // Hashed rather than drawn from `random` so the other fields stay as they were
+    const traits = hashString(`${prefix}-${noun}-traits`);
+    return {
+      name: `${prefix} ${noun}`,
+      category: noun,
+      summary: `Popular for its ${['atmosphere', 'service', 'value', 'location', 'menu'][index % 5]} and frequently mentioned in reviews.`,
+      rating,
+      ratingScale: 5,
+      reviewCount: Math.round(50 + random() * 2000),
+      priceLevel: '$'.repeat(1 + (traits % 4)),
+      cuisine: cuisineFilter || CUISINES[traits % CUISINES.length],
+      amenities: AMENITY_NAMES.filter((_, bit) => (traits >> (bit + 2)) & 1),
+      address: `${Math.round(1 + random() * 200)} Example Street`,
+      latitude: Math.round((origin.latitude + (random() - 0.5) * 0.03) * 1e6) / 1e6,
+      longitude: Math.round((origin.longitude + (random() - 0.5) * 0.04) * 1e6) / 1e6,
+      placeId: `places/fake-${hashString(`${prefix}-${noun}`).toString(36)}`,
+    };
+  });
+
+  // The JSON block comes first, as PLACES_JSON_INSTRUCTION asks; support offsets count it too
+  const json = places.map(({ placeId, ...place }) => place);
+  const jsonBlock = `\`\`\`json\n${JSON.stringify(json, null, 2)}\n\`\`\`\n\n`;
+
+  let prose = `Here are the top 10 most recommended ${query}:\n\n`;
+  const supports: GroundingSupport[] = [];
+  places.forEach((place, index) => {
+    const line = `${index + 1}. **${place.name}** (${place.category}) - ${place.summary} Rated ${place.rating} stars from ${place.reviewCount} reviews.`;
+    const startIndex = byteLength(jsonBlock + prose);
+    prose += line + '\n';
+    const chunkIndices = usesMaps ? [index] : [];
+    if (usesSearch) chunkIndices.push((usesMaps ? places.length : 0) + (index % 3));
+    supports.push({
+      segment: { startIndex, endIndex: startIndex + byteLength(line), text: line },
+      groundingChunkIndices: chunkIndices,
+      confidenceScores: chunkIndices.map(() => 0.9),
+    });
+  });
+
+  const text = jsonBlock + prose.trimEnd();
+
+  const groundingChunks: GroundingChunk[] = [];
+  if (usesMaps) {
+    places.forEach((place, index) => {
+      groundingChunks.push({
+        maps: {
+          uri: `https://maps.google.com/?q=${encodeURIComponent(place.name)}`,
+          title: place.name,
+          placeId: place.placeId,
+          placeAnswerSources: {
+            reviewSnippets: [0, 1].map((offset) => ({
+              reviewId: `${place.placeId}-review-${offset}`,
+              title: REVIEW_PHRASES[(index + offset) % REVIEW_PHRASES.length],
+              googleMapsUri: `https://maps.google.com/?q=${encodeURIComponent(place.name)}&review=${offset}`,
+            })),
+          },
+        },
+      });
+    });
+  }
+  if (usesSearch) {
+    ['Local food blog', 'City guide', 'Travel magazine'].forEach((title, index) => {
+      groundingChunks.push({
+        web: { uri: `https://example.com/${encodeURIComponent(query)}/${index + 1}`, title: `${title}: best ${query}`, domain: 'example.com' },
+      });
+    });
+  }
+
+  return buildResponse(text, prompt, {
+    groundingChunks,
+    groundingSupports: supports.filter((support) => support.groundingChunkIndices?.length),
+    webSearchQueries: usesSearch ? [query] : undefined,
+  });
+}
+
+function locationResponse(prompt: string): GenerateContentResponse {
+  const random = seededRandom(prompt);
+  const query = prompt.match(/place or address: "(.*?)"/)?.[1] || 'Unknown place';
+  const location = {
+    latitude: Math.round((DEFAULT_ORIGIN.latitude + (random() - 0.5) * 0.2) * 1e6) / 1e6,
+    longitude: Math.round((DEFAULT_ORIGIN.longitude + (random() - 0.5) * 0.3) * 1e6) / 1e6,
+    label: `${query} (offline fake)`,
+  };
+  return buildResponse(`\`\`\`json\n${JSON.stringify(location)}\n\`\`\``, prompt);
+}
+
+function imageResponse(params: GenerateContentParameters, prompt: string): GenerateContentResponse {
+  const image = collectParts(params.contents).find((part) => part.inlineData)?.inlineData;
+  const approxBytes = image?.data ? Math.round((image.data.length * 3) / 4) : 0;
+  const text = [
+    '**Offline image analysis**',
+    '',
+    `You asked: *${prompt || 'Describe this image'}*`,
+    '',
+    `- Format: ${image?.mimeType || 'unknown'}`,
+    `- Size: about ${Math.round(approxBytes / 1024)} KB`,
+    '- Main subject: a clearly lit scene with a central object and a simple background.',
+    '- Colours: mostly neutral tones with one strong accent colour.',
+    '',
+    'This is a canned response from the offline fake provider.',
+  ].join('\n');
+  return buildResponse(text, prompt);
+}
+
+function complexResponse(prompt: string): GenerateContentResponse {
+  const text = [
+    '## Summary',
+    '',
+    `This is an offline, canned analysis of: *${prompt.slice(0, 120)}${prompt.length > 120 ? '…' : ''}*`,
+    '',
+    '## Key considerations',
+    '',
+    '1. **Context** - the main factors and how they interact.',
+    '2. **Trade-offs** - what you gain and what you give up with each option.',
+    '3. **Risks** - what could go wrong and how to mitigate it.',
+    '',
+    '## Recommendation',
+    '',
+    'Start small, measure the outcome, and iterate.',
+  ].join('\n');
+  return buildResponse(text, prompt);
+}
+
+function itineraryResponse(prompt: string): GenerateContentResponse {
+  const random = seededRandom(prompt);
+  const names = Array.from(prompt.matchAll(/^\d+\. (.+?)(?: \(|$)/gm), (match) => match[1]);
+  const stops: { kind: string; placeName: string; durationMinutes: number; travelMinutesFromPrevious: number; note: string }[] = names.map((name) => ({
+    kind: 'visit',
+    placeName: name,
+    durationMinutes: 45 + Math.floor(random() * 4) * 15,
+    travelMinutesFromPrevious: 5 + Math.floor(random() * 16),
+    note: 'Offline suggestion: check opening hours before you go.',
+  }));
+  stops.splice(Math.ceil(stops.length / 2), 0, {
+    kind: 'meal',
+    placeName: 'Lunch nearby',
+    durationMinutes: 60,
+    travelMinutesFromPrevious: 10,
+    note: 'A break between visits.',
+  });
+  const text = JSON.stringify({ summary: `A relaxed day with ${names.length} stops and a lunch break (offline fake provider).`, stops });
+  return buildResponse(text, prompt);
+}
+
+function comparisonResponse(prompt: string): GenerateContentResponse {
+  const random = seededRandom(prompt);
+  const purpose = prompt.match(/^Compare these places for (.+?):$/m)?.[1] || 'your visit';
+  const names = Array.from(prompt.matchAll(/^\d+\. (.+?)(?: \(|$)/gm), (match) => match[1]);
+  const pick = Math.floor(random() * names.length);
+
+  let text = `For ${purpose}, I would pick **${names[pick]}**. Reviews on Google Maps consistently praise it for exactly this.\n\n`;
+  const supports: GroundingSupport[] = [{
+    segment: { startIndex: 0, endIndex: byteLength(text.trimEnd()), text: text.trimEnd() },
+    groundingChunkIndices: [pick],
+    confidenceScores: [0.9],
+  }];
+  names.forEach((name, index) => {
+    const line = `- **${name}**: ${REVIEW_PHRASES[(index + pick) % REVIEW_PHRASES.length]}`;
+    const startIndex = byteLength(text);
+    text += line + '\n';
+    supports.push({
+      segment: { startIndex, endIndex: startIndex + byteLength(line), text: line },
+      groundingChunkIndices: [index],
+      confidenceScores: [0.9],
+    });
+  });
+
+  const groundingChunks = names.map((name) => ({
+    maps: {
+      uri: `https://maps.google.com/?q=${encodeURIComponent(name)}`,
+      title: name,
+      placeId: `places/fake-${hashString(name).toString(36)}`,
+    },
+  }));
+  return buildResponse(text.trimEnd(), prompt, { groundingChunks, groundingSupports: supports });
+}
+
+function chatResponse(params: GenerateContentParameters, prompt: string): GenerateContentResponse {
+  const random = seededRandom(prompt);
+  const lastLine = prompt.trim().split('\n').slice(-1)[0];
+  // Multi-turn requests say how much history they carried, so context handling is visible offline
+  const turns = Array.isArray(params.contents)
+    ? params.contents.filter((content) => typeof content === 'object' && 'role' in content && content.role === 'user').length
+    : 1;
+  const context = turns > 1 ? `\n\nThis is message ${turns} of the conversation I can see.` : '';
+  const summary = typeof params.config?.systemInstruction === 'string' && params.config.systemInstruction.startsWith('Summary')
+    ? ' Earlier messages reached me as a summary.'
+    : '';
+  const reply = `${CHAT_REPLIES[Math.floor(random() * CHAT_REPLIES.length)]}\n\nYou said: "${lastLine}"${context}${summary}\n\n*(offline fake provider)*`;
+  return buildResponse(reply, prompt);
+}
+
+function summaryResponse(prompt: string): GenerateContentResponse {
+  const userLines = prompt.split('\n').filter((line) => line.startsWith('User: ')).map((line) => line.slice(6));
+  return buildResponse(`Earlier, the user talked about: ${userLines.join('; ') || 'nothing in particular'}.`, prompt);
+}
+
+function silentPcmBase64(seconds: number): string {
+  const bytes = new Uint8Array(Math.round(LIVE_OUTPUT_SAMPLE_RATE * seconds) * 2); // 16-bit mono silence
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Simulated Live session: after every few seconds of microphone input it "hears" a
+ * scripted user utterance and answers with a transcription and a short audio clip.
+ * When the session offers the `searchPlaces` function, the first utterance asks for
+ * places and is answered through a tool call instead.
+ */
+class FakeLiveSession implements LiveSession {
+  private chunkCount = 0;
+  private turn = 0;
+  private closed = false;
+
+  constructor(private readonly params: LiveConnectParameters) {
+    setTimeout(() => params.callbacks.onopen?.(), 0);
+  }
+
+  private emit(message: Partial<LiveServerMessage>) {
+    if (this.closed) return;
+    this.params.callbacks.onmessage(message as LiveServerMessage);
+  }
+
+  private offersPlaceSearch(): boolean {
+    return (this.params.config?.tools || []).some((tool) =>
+      'functionDeclarations' in tool && tool.functionDeclarations?.some((declaration) => declaration.name === 'searchPlaces'));
+  }
+
+  private speak(answer: string) {
+    answer.split(/(?<= )/).forEach((word, index) => {
+      setTimeout(() => this.emit({ serverContent: { outputTranscription: { text: word } } }), 40 * (index + 1));
+    });
+    setTimeout(() => {
+      this.emit({
+        serverContent: {
+          modelTurn: { role: 'model', parts: [{ inlineData: { mimeType: `audio/pcm;rate=${LIVE_OUTPUT_SAMPLE_RATE}`, data: silentPcmBase64(0.3) } }] },
+        },
+      });
+      this.emit({ serverContent: { turnComplete: true } });
+    }, 40 * (answer.split(' ').length + 2));
+  }
+
+  sendRealtimeInput(_params: LiveSendRealtimeInputParameters): void {
+    if (this.closed) return;
+    this.chunkCount++;
+    if (this.chunkCount % LIVE_CHUNKS_PER_TURN !== 0) return;
+
+    this.turn++;
+    const turn = this.turn;
+    if (turn === 1 && this.offersPlaceSearch()) {
+      this.emit({ serverContent: { inputTranscription: { text: 'Find me a good coffee shop nearby.' } } });
+      setTimeout(() => this.emit({
+        toolCall: { functionCalls: [{ id: `fake-call-${turn}`, name: 'searchPlaces', args: { query: 'coffee shop' } }] },
+      }), 40);
+      return;
+    }
+    this.emit({ serverContent: { inputTranscription: { text: `Simulated question number ${turn}.` } } });
+    this.speak(`This is simulated answer ${turn} from the offline fake provider.`);
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters): void {
+    if (this.closed) return;
+    const response = [params.functionResponses].flat()[0]?.response as
+      { output?: { topPlaces?: { name: string }[] }; error?: string } | undefined;
+    const names = response?.output?.topPlaces?.map((place) => place.name) || [];
+    this.speak(names.length > 0
+      ? `I found a few places. The top ones are ${names.join(', ')}.`
+      : `Sorry, the search did not work: ${response?.error || 'nothing was found'}.`);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.params.callbacks.onclose?.({ code: 1000, reason: 'Closed by client', wasClean: true } as CloseEvent);
+  }
+}
+
+export class FakeProvider implements ModelProvider {
+  readonly name = 'fake';
+
+  async generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+    params.config?.abortSignal?.throwIfAborted();
+    const prompt = promptText(params);
+    const grounded = toolsOf(params).some((tool) => tool.googleMaps || tool.googleSearch);
+
+    if (grounded && /geographic coordinates of this place/.test(prompt)) {
+      return locationResponse(prompt);
+    }
+    if (grounded && prompt.startsWith('Compare these places')) {
+      return comparisonResponse(prompt);
+    }
+    if (grounded) {
+      return placesResponse(params, prompt);
+    }
+    if (collectParts(params.contents).some((part) => part.inlineData)) {
+      return imageResponse(params, prompt);
+    }
+    if (params.config?.responseSchema && prompt.startsWith('Plan a day itinerary')) {
+      return itineraryResponse(prompt);
+    }
+    if (params.model === MODELS.complexReasoning) {
+      return complexResponse(prompt);
+    }
+    if (prompt.startsWith('Summarize this conversation')) {
+      return summaryResponse(prompt);
+    }
+    return chatResponse(params, prompt);
+  }
+
+  async generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const chunks = splitIntoChunks(await this.generateContent(params));
+    const signal = params.config?.abortSignal;
+    return (async function* () {
+      for (const chunk of chunks) {
+        await new Promise((resolve) => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+        signal?.throwIfAborted();
+        yield chunk;
+      }
+    })();
+  }
+
+  async connectLive(params: LiveConnectParameters): Promise<LiveSession> {
+    return new FakeLiveSession(params);
+  }
+}
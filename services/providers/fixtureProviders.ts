@@ -0,0 +1,87 @@
+import { GenerateContentParameters, GenerateContentResponse, LiveConnectParameters } from "@google/genai";
+import { LiveSession, ModelProvider } from "./modelProvider";
+import { Fixture, FixtureStore, createFixture, fingerprintRequest, toGenerateContentResponse } from "../fixtures/fixtures";
+
+/**
+ * Wraps another provider and writes every `generateContent` and `generateContentStream`
+ * request and response (candidates with their grounding metadata, and usage metadata)
+ * to the fixture store. A failed write is logged and never fails the call itself.
+ */
+export class RecordingProvider implements ModelProvider {
+  readonly name = 'record';
+
+  constructor(private readonly inner: ModelProvider, private readonly store: FixtureStore) {}
+
+  async generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+    const response = await this.inner.generateContent(params);
+    await this.record(params, response);
+    return response;
+  }
+
+  async generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const stream = await this.inner.generateContentStream(params);
+    const record = (chunks: GenerateContentResponse[]) => this.record(params, chunks);
+    return (async function* () {
+      const chunks: GenerateContentResponse[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      // Only complete streams are recorded
+      await record(chunks);
+    })();
+  }
+
+  private async record(params: GenerateContentParameters, result: GenerateContentResponse | GenerateContentResponse[]): Promise<void> {
+    try {
+      const fingerprint = await fingerprintRequest(params, Array.isArray(result));
+      await this.store.write(createFixture(fingerprint, this.inner.name, params, result));
+    } catch (error) {
+      console.error('Failed to record fixture:', error);
+    }
+  }
+
+  // Live audio sessions are not recorded; they go straight to the wrapped provider.
+  connectLive(params: LiveConnectParameters): Promise<LiveSession> {
+    return this.inner.connectLive(params);
+  }
+}
+
+/**
+ * Serves recorded responses by request fingerprint without calling any model.
+ * A request with no fixture fails, so a changed prompt or config is noticed
+ * instead of silently hitting the network.
+ */
+export class ReplayProvider implements ModelProvider {
+  readonly name = 'replay';
+
+  constructor(private readonly store: FixtureStore, private readonly live: ModelProvider) {}
+
+  async generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+    const fixture = await this.load(params, false);
+    return toGenerateContentResponse(fixture.response!);
+  }
+
+  async generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const fixture = await this.load(params, true);
+    const chunks = fixture.chunks!.map(toGenerateContentResponse);
+    return (async function* () {
+      yield* chunks;
+    })();
+  }
+
+  private async load(params: GenerateContentParameters, stream: boolean): Promise<Fixture> {
+    params.config?.abortSignal?.throwIfAborted();
+    const fingerprint = await fingerprintRequest(params, stream);
+    const fixture = await this.store.read(fingerprint);
+    if (!fixture || !(stream ? fixture.chunks : fixture.response)) {
+      throw new Error(`No fixture recorded for this ${params.model} ${stream ? 'streaming ' : ''}request (fingerprint ${fingerprint}). Record it with MODEL_PROVIDER=record.`);
+    }
+    return fixture;
+  }
+
+  // Live sessions cannot be replayed from fixtures, so they use the given fallback provider.
+  connectLive(params: LiveConnectParameters): Promise<LiveSession> {
+    return this.live.connectLive(params);
+  }
+}
@@ -0,0 +1,26 @@
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, LiveConnectParameters } from "@google/genai";
+import { LiveSession, ModelProvider } from "./modelProvider";
+
+/**
+ * Provider backed by the real Gemini API through the `@google/genai` SDK.
+ */
+export class GeminiProvider implements ModelProvider {
+  readonly name = 'gemini';
+  private readonly ai: GoogleGenAI;
+
+  constructor(apiKey: string | undefined) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+    return this.ai.models.generateContent(params);
+  }
+
+  generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>> {
+    return this.ai.models.generateContentStream(params);
+  }
+
+  connectLive(params: LiveConnectParameters): Promise<LiveSession> {
+    return this.ai.live.connect(params);
+  }
+}
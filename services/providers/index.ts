@@ -0,0 +1,63 @@
+import { ModelProvider } from "./modelProvider";
+import { GeminiProvider } from "./geminiProvider";
+import { FakeProvider } from "./fakeProvider";
+import { RecordingProvider, ReplayProvider } from "./fixtureProviders";
+import { HttpFixtureStore } from "../fixtures/httpFixtureStore";
+import { FixtureStore } from "../fixtures/fixtures";
+
+export type { ModelProvider, LiveSession } from "./modelProvider";
+export { RecordingProvider, ReplayProvider } from "./fixtureProviders";
+
+let provider: ModelProvider | null = null;
+
+/**
+ * Creates the provider named by `MODEL_PROVIDER`: 'gemini' for the Gemini API, 'fake'
+ * for the deterministic offline backend, 'record' to call Gemini and save every
+ * response as a fixture, or 'replay' to serve those fixtures back without network
+ * access. The proxy server passes its API key and a file-backed fixture store; the
+ * browser has no key, so it only creates 'fake' and 'replay' itself.
+ */
+export function createModelProvider(
+  name: string = process.env.MODEL_PROVIDER || 'gemini',
+  apiKey?: string,
+  fixtureStore: FixtureStore = new HttpFixtureStore(),
+): ModelProvider {
+  switch (name) {
+    case 'fake':
+      return new FakeProvider();
+    case 'gemini':
+      return new GeminiProvider(apiKey);
+    case 'record':
+      return new RecordingProvider(new GeminiProvider(apiKey), fixtureStore);
+    case 'replay':
+      return new ReplayProvider(fixtureStore, new FakeProvider());
+    default:
+      throw new Error(`Unknown MODEL_PROVIDER "${name}". Use 'gemini', 'fake', 'record' or 'replay'.`);
+  }
+}
+
+/**
+ * Whether service calls go to the proxy server instead of a provider in this process:
+ * the browser's default. A provider passed to `setModelProvider` takes precedence.
+ */
+export function usesProxyServer(): boolean {
+  return provider === null && process.env.MODEL_PROVIDER === 'proxy';
+}
+
+/**
+ * Returns the provider every service call goes through, creating it on first use.
+ */
+export function getModelProvider(): ModelProvider {
+  if (!provider) {
+    provider = createModelProvider();
+  }
+  return provider;
+}
+
+/**
+ * Replaces the active provider, e.g. with a fake in tests. Pass null to go back to
+ * the configured one.
+ */
+export function setModelProvider(next: ModelProvider | null): void {
+  provider = next;
+}
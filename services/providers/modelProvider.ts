@@ -0,0 +1,29 @@
+import {
+  GenerateContentParameters,
+  GenerateContentResponse,
+  LiveConnectParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from "@google/genai";
+
+/**
+ * The subset of a Live API session the app uses. Implemented by the SDK's `Session`
+ * and by the fake provider's simulated session.
+ */
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/**
+ * Everything `geminiService` needs from a model backend. Every mode goes through
+ * this interface so the app can run against the live API or an offline fake.
+ */
+export interface ModelProvider {
+  readonly name: string;
+  generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+  // Yields partial responses as they arrive; grounding and usage metadata come with the last chunk.
+  generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>>;
+  connectLive(params: LiveConnectParameters): Promise<LiveSession>;
+}
@@ -0,0 +1,112 @@
+import {
+  Content,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from "@google/genai";
+import { ChatMessage, GroundingMode, ImageDataPart, Place, PlaceFilters, UserLocation } from "../../types";
+import { ItineraryOptions } from "../itinerary";
+import { ServiceErrorKind } from "../errors";
+
+/**
+ * Endpoints of the proxy server (server/index.ts). The server holds the API key and
+ * builds the model requests itself, so the browser can only ask for what the app does.
+ */
+export const API_ROUTES = {
+  recommendations: '/api/recommendations', // Streamed
+  location: '/api/location',
+  chat: '/api/chat', // Streamed
+  chatSummary: '/api/chat/summary',
+  imageAnalysis: '/api/image-analysis',
+  complexQuery: '/api/complex-query', // Streamed
+  itinerary: '/api/itinerary',
+  comparison: '/api/comparison',
+  live: '/api/live', // WebSocket
+} as const;
+
+export interface RecommendationsRequest {
+  query: string;
+  userLocation: UserLocation;
+  filters: PlaceFilters;
+  groundingMode: GroundingMode;
+}
+
+export interface LocationRequest {
+  query: string;
+}
+
+export interface ChatRequest {
+  contents: Content[];
+  systemInstruction?: string;
+}
+
+export interface ChatSummaryRequest {
+  previousSummary: string | null;
+  messages: Pick<ChatMessage, 'sender' | 'text'>[];
+}
+
+export interface ImageAnalysisRequest {
+  image: ImageDataPart;
+  prompt: string;
+}
+
+export interface ComplexQueryRequest {
+  prompt: string;
+}
+
+export interface ItineraryRequest {
+  places: Place[];
+  options: ItineraryOptions;
+}
+
+export interface ComparisonRequest {
+  places: Place[];
+  purpose: string;
+  userLocation: UserLocation;
+}
+
+export interface TextResponse {
+  text: string;
+}
+
+// Body of every failed request, including 429 when a client is over its rate limit.
+// `kind` classifies failed model calls, so the browser can offer the right recovery.
+export interface ErrorResponse {
+  error: string;
+  kind?: ServiceErrorKind;
+  retryAfterMs?: number | null;
+}
+
+/**
+ * Streamed endpoints answer with newline-delimited JSON: any number of updates, then
+ * either the result or an error.
+ */
+export type StreamEvent<TUpdate, TResult> =
+  | { type: 'update'; data: TUpdate }
+  | { type: 'result'; data: TResult }
+  | ({ type: 'error' } & ErrorResponse);
+
+/**
+ * The settings of a Live session; the server builds the session config from them, so
+ * only the app's voices, languages and place-search function can be used.
+ */
+export interface LiveConnectRequest {
+  voiceName: string; // One of LIVE_VOICES
+  languageCode: string; // One of LIVE_LANGUAGES
+  systemInstruction: string; // The persona instruction
+  placeSearch: boolean; // Offers the `searchPlaces` function
+}
+
+/**
+ * Live relay messages from the browser. `connect` must come first; the server picks
+ * the model.
+ */
+export type LiveClientMessage =
+  | { type: 'connect'; request: LiveConnectRequest }
+  | { type: 'realtimeInput'; params: LiveSendRealtimeInputParameters }
+  | { type: 'toolResponse'; params: LiveSendToolResponseParameters };
+
+export type LiveRelayMessage =
+  | { type: 'open' }
+  | { type: 'message'; message: LiveServerMessage }
+  | { type: 'error'; error: string };
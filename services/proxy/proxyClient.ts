@@ -0,0 +1,202 @@
+import { Content, LiveCallbacks, LiveServerMessage } from "@google/genai";
+import { ChatMessage, ImageDataPart, Itinerary, Place, PlaceFilters, GroundingMode, UserLocation } from "../../types";
+import type { ComparisonVerdict, RecommendationResult } from "../geminiService";
+import { ItineraryOptions } from "../itinerary";
+import { LiveSession } from "../providers";
+import { ServiceError, isCancellation, withRetry } from "../errors";
+import {
+  API_ROUTES,
+  ChatRequest,
+  ChatSummaryRequest,
+  ComparisonRequest,
+  ComplexQueryRequest,
+  ErrorResponse,
+  ImageAnalysisRequest,
+  ItineraryRequest,
+  LiveClientMessage,
+  LiveConnectRequest,
+  LiveRelayMessage,
+  LocationRequest,
+  RecommendationsRequest,
+  StreamEvent,
+  TextResponse,
+} from "./protocol";
+
+/**
+ * Browser side of the proxy server. Mirrors the `geminiService` functions, which call
+ * these when `MODEL_PROVIDER` is 'proxy'. Errors are `ServiceError`s with the server's
+ * message and kind.
+ */
+
+async function errorFrom(response: Response): Promise<ServiceError> {
+  const body: Partial<ErrorResponse> | null = await response.json().catch(() => null);
+  if (!body?.error) {
+    // Not an answer of the proxy server, e.g. the dev server failing to reach it
+    return new ServiceError(
+      response.status >= 500 ? 'network' : 'unknown',
+      `The proxy server could not be reached (HTTP ${response.status}).`,
+    );
+  }
+  return new ServiceError(body.kind || 'unknown', body.error, body.retryAfterMs ?? null);
+}
+
+// The server already retries the model; only requests that never reached it are retried here.
+// Aborting `signal` also makes the server stop its model call.
+async function sendRequest(route: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  try {
+    return await withRetry(() => fetch(route, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    }), { signal });
+  } catch (error) {
+    if (isCancellation(error)) {
+      throw error;
+    }
+    throw new ServiceError('network', 'Could not reach the proxy server: ' + (error as Error).message);
+  }
+}
+
+async function post<TResponse>(route: string, body: unknown, signal?: AbortSignal): Promise<TResponse> {
+  const response = await sendRequest(route, body, signal);
+  if (!response.ok) {
+    throw await errorFrom(response);
+  }
+  return response.json();
+}
+
+async function postStream<TUpdate, TResult>(
+  route: string,
+  body: unknown,
+  onUpdate: (update: TUpdate) => void,
+  signal?: AbortSignal,
+): Promise<TResult> {
+  const response = await sendRequest(route, body, signal);
+  if (!response.ok || !response.body) {
+    throw await errorFrom(response);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += value || '';
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event: StreamEvent<TUpdate, TResult> = JSON.parse(line);
+      if (event.type === 'update') {
+        onUpdate(event.data);
+      } else if (event.type === 'result') {
+        return event.data;
+      } else {
+        throw new ServiceError(event.kind || 'unknown', event.error, event.retryAfterMs ?? null);
+      }
+    }
+    if (done) {
+      throw new ServiceError('network', 'The proxy server closed the stream before the answer was complete.');
+    }
+  }
+}
+
+export function streamPlacesRecommendations(
+  query: string,
+  userLocation: UserLocation,
+  filters: PlaceFilters,
+  groundingMode: GroundingMode,
+  onUpdate: (partial: { text: string; places: Place[] }) => void,
+  signal?: AbortSignal,
+): Promise<RecommendationResult> {
+  const body: RecommendationsRequest = { query, userLocation, filters, groundingMode };
+  return postStream(API_ROUTES.recommendations, body, onUpdate, signal);
+}
+
+export function resolveLocation(query: string, signal?: AbortSignal): Promise<UserLocation> {
+  const body: LocationRequest = { query };
+  return post(API_ROUTES.location, body, signal);
+}
+
+export async function streamChatReply(
+  contents: Content[],
+  systemInstruction: string | undefined,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  const body: ChatRequest = { contents, systemInstruction };
+  return (await postStream<string, TextResponse>(API_ROUTES.chat, body, onText, signal)).text;
+}
+
+export async function summarizeConversation(
+  previousSummary: string | null,
+  messages: Pick<ChatMessage, 'sender' | 'text'>[],
+  signal?: AbortSignal,
+): Promise<string> {
+  const body: ChatSummaryRequest = {
+    previousSummary,
+    messages: messages.map(({ sender, text }) => ({ sender, text })),
+  };
+  return (await post<TextResponse>(API_ROUTES.chatSummary, body, signal)).text;
+}
+
+export async function analyzeImage(image: ImageDataPart, prompt: string, signal?: AbortSignal): Promise<string> {
+  const body: ImageAnalysisRequest = { image, prompt };
+  return (await post<TextResponse>(API_ROUTES.imageAnalysis, body, signal)).text;
+}
+
+export async function streamComplexQuery(prompt: string, onText: (text: string) => void, signal?: AbortSignal): Promise<string> {
+  const body: ComplexQueryRequest = { prompt };
+  return (await postStream<string, TextResponse>(API_ROUTES.complexQuery, body, onText, signal)).text;
+}
+
+export function planItinerary(places: Place[], options: ItineraryOptions, signal?: AbortSignal): Promise<Itinerary> {
+  const body: ItineraryRequest = { places, options };
+  return post(API_ROUTES.itinerary, body, signal);
+}
+
+export function comparePlaces(places: Place[], purpose: string, userLocation: UserLocation, signal?: AbortSignal): Promise<ComparisonVerdict> {
+  const body: ComparisonRequest = { places, purpose, userLocation };
+  return post(API_ROUTES.comparison, body, signal);
+}
+
+/**
+ * Opens a Live session through the server's WebSocket relay, which builds the session
+ * config from `request`. Resolves once the socket is open; `onopen` fires when the
+ * server has connected to the model.
+ */
+export function connectLive(request: LiveConnectRequest, callbacks: LiveCallbacks): Promise<LiveSession> {
+  const url = new URL(API_ROUTES.live, window.location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  const socket = new WebSocket(url);
+  const send = (message: LiveClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  socket.addEventListener('message', (event) => {
+    const relayed: LiveRelayMessage = JSON.parse(event.data);
+    if (relayed.type === 'open') {
+      callbacks.onopen?.();
+    } else if (relayed.type === 'message') {
+      // Restore the class so its getters (`text`, `data`) work as with the SDK
+      callbacks.onmessage(Object.assign(new LiveServerMessage(), relayed.message));
+    } else {
+      callbacks.onerror?.(new ErrorEvent('error', { message: relayed.error }));
+    }
+  });
+  socket.addEventListener('close', (event) => callbacks.onclose?.(event));
+
+  return new Promise((resolve, reject) => {
+    socket.addEventListener('open', () => {
+      send({ type: 'connect', request });
+      resolve({
+        sendRealtimeInput: (input) => send({ type: 'realtimeInput', params: input }),
+        sendToolResponse: (response) => send({ type: 'toolResponse', params: response }),
+        close: () => socket.close(1000),
+      });
+    }, { once: true });
+    socket.addEventListener('error', () => reject(new Error('Could not reach the Live relay of the proxy server.')), { once: true });
+  });
+}
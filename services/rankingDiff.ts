@@ -0,0 +1,50 @@
+import { Place } from "../types";
+import { normalizePlaceName } from "./placeParser";
+
+export interface RankedPlace {
+  place: Place;
+  rank: number;
+}
+
+export interface MovedPlace {
+  place: Place;
+  previousRank: number;
+  rank: number;
+}
+
+export interface RankingDiff {
+  entered: RankedPlace[]; // In the current run only
+  left: RankedPlace[]; // In the previous run only (rank is the previous rank)
+  moved: MovedPlace[]; // In both runs at different positions
+  unchanged: RankedPlace[];
+}
+
+// Place ids differ between runs when one has a Maps place id and the other does not,
+// so places are matched by normalized name.
+const placeKey = (place: Place) => normalizePlaceName(place.name);
+
+/**
+ * Compares two rankings of the same search and reports what entered, left or moved.
+ */
+export function diffRankings(previous: Place[], current: Place[]): RankingDiff {
+  const previousByKey = new Map<string, Place>(previous.map((place) => [placeKey(place), place]));
+  const currentKeys = new Set(current.map(placeKey));
+  const diff: RankingDiff = { entered: [], left: [], moved: [], unchanged: [] };
+
+  for (const place of current) {
+    const before = previousByKey.get(placeKey(place));
+    if (!before) {
+      diff.entered.push({ place, rank: place.rank });
+    } else if (before.rank !== place.rank) {
+      diff.moved.push({ place, previousRank: before.rank, rank: place.rank });
+    } else {
+      diff.unchanged.push({ place, rank: place.rank });
+    }
+  }
+  for (const place of previous) {
+    if (!currentKeys.has(placeKey(place))) {
+      diff.left.push({ place, rank: place.rank });
+    }
+  }
+  return diff;
+}
@@ -0,0 +1,89 @@
+import { GroundingMode, LatLng, PlaceFilters } from "../types";
+import type { RecommendationResult } from "./geminiService";
+import { getAll, getOne, put, remove } from "./db";
+import { locationCell } from "./geo";
+
+/**
+ * Persistent cache of Local Guide results, so repeating a search does not cost
+ * another grounded model call. Set `RECOMMENDATION_CACHE_TTL_MINUTES` (0 turns the
+ * cache off) and `RECOMMENDATION_CACHE_MAX_ENTRIES` in .env.local to tune it.
+ */
+
+const DEFAULT_TTL_MINUTES = 60;
+const DEFAULT_MAX_ENTRIES = 50;
+
+interface CachedRecommendation {
+  key: string;
+  createdAt: number;
+  result: RecommendationResult;
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const number = Number(value);
+  return value && value.trim() !== '' && Number.isFinite(number) && number >= 0 ? number : fallback;
+}
+
+function ttlMs(): number {
+  return readNumber(process.env.RECOMMENDATION_CACHE_TTL_MINUTES, DEFAULT_TTL_MINUTES) * 60_000;
+}
+
+function maxEntries(): number {
+  return Math.floor(readNumber(process.env.RECOMMENDATION_CACHE_MAX_ENTRIES, DEFAULT_MAX_ENTRIES));
+}
+
+// Only the browser keeps a cache; the proxy server answers every request it gets
+function isCacheEnabled(): boolean {
+  return typeof indexedDB !== 'undefined' && ttlMs() > 0 && maxEntries() > 0;
+}
+
+// Case, spacing and Unicode forms do not change what is being searched for
+function normalizeQuery(query: string): string {
+  return query.normalize('NFKC').toLocaleLowerCase().replace(/\s+/g, ' ').replace(/[\s.!?]+$/, '').trim();
+}
+
+/**
+ * The cache key of a search: the normalized query, every filter, the grounding mode and
+ * the cell of the location grid the search was made from.
+ */
+export function recommendationCacheKey(query: string, filters: PlaceFilters, groundingMode: GroundingMode, location: LatLng): string {
+  return JSON.stringify([
+    normalizeQuery(query),
+    filters.priceRange,
+    filters.cuisineType.trim().toLocaleLowerCase(),
+    [...filters.amenities].sort(),
+    groundingMode,
+    ...locationCell(location),
+  ]);
+}
+
+/**
+ * A result cached under `key` within the TTL, with `cachedAt` set, or null.
+ */
+export async function getCachedRecommendations(key: string): Promise<RecommendationResult | null> {
+  if (!isCacheEnabled()) return null;
+  const entry = await getOne<CachedRecommendation>('recommendationCache', key);
+  if (!entry) return null;
+  if (Date.now() - entry.createdAt > ttlMs()) {
+    await remove('recommendationCache', key);
+    return null;
+  }
+  return { ...entry.result, cachedAt: entry.createdAt };
+}
+
+/**
+ * Caches a fresh result, then drops expired entries and the oldest ones beyond the
+ * size limit.
+ */
+export async function cacheRecommendations(key: string, result: RecommendationResult): Promise<void> {
+  if (!isCacheEnabled()) return;
+  const now = Date.now();
+  await put<CachedRecommendation>('recommendationCache', { key, createdAt: now, result: { ...result, cachedAt: null } });
+
+  const entries = (await getAll<CachedRecommendation>('recommendationCache')).sort((a, b) => b.createdAt - a.createdAt);
+  const limit = maxEntries();
+  for (const [index, entry] of entries.entries()) {
+    if (index >= limit || now - entry.createdAt > ttlMs()) {
+      await remove('recommendationCache', entry.key);
+    }
+  }
+}
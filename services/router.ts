@@ -0,0 +1,101 @@
+import { AppMode, Amenity, GroundingMode, PlaceFilters, PriceRange, UserLocation } from "../types";
+import { SORT_ORDER_LABELS, SortOrder } from "./placeRanking";
+import { AMENITIES } from "./placeParser";
+
+export const APP_MODES: AppMode[] = ['maps', 'live-chat', 'image-analysis', 'general-chat', 'complex-query'];
+export const DEFAULT_MODE: AppMode = 'maps';
+
+const PRICE_RANGES: PriceRange[] = ['$', '$$', '$$$', '$$$$'];
+const GROUNDING_MODES: GroundingMode[] = ['auto', 'maps', 'search', 'maps+search'];
+
+/**
+ * A Local Guide search as carried in a shared link. The location is only included
+ * when it was set by hand; otherwise whoever opens the link searches near themselves.
+ */
+export interface LocalGuideLink {
+  query: string;
+  filters: PlaceFilters;
+  groundingMode: GroundingMode;
+  sortOrder: SortOrder;
+  location: UserLocation | null;
+}
+
+export interface Route {
+  mode: AppMode;
+  localGuide: LocalGuideLink | null; // Only for 'maps'
+}
+
+function parseCoordinate(value: string | null, limit: number): number | null {
+  if (value === null) return null;
+  const number = parseFloat(value);
+  return Number.isFinite(number) && Math.abs(number) <= limit ? number : null;
+}
+
+function parseLocalGuide(params: URLSearchParams): LocalGuideLink | null {
+  const query = params.get('q')?.trim() || '';
+  if (!query) {
+    return null;
+  }
+  const price = params.get('price') as PriceRange;
+  const grounding = params.get('grounding') as GroundingMode;
+  const sort = params.get('sort') as SortOrder;
+  const latitude = parseCoordinate(params.get('lat'), 90);
+  const longitude = parseCoordinate(params.get('lng'), 180);
+  return {
+    query,
+    filters: {
+      priceRange: PRICE_RANGES.includes(price) ? price : '',
+      cuisineType: params.get('cuisine')?.trim() || '',
+      amenities: (params.get('amenities') || '').split(',').filter((amenity): amenity is Amenity => AMENITIES.includes(amenity as Amenity)),
+    },
+    groundingMode: GROUNDING_MODES.includes(grounding) ? grounding : 'auto',
+    sortOrder: Object.keys(SORT_ORDER_LABELS).includes(sort) ? sort : 'default',
+    location: latitude !== null && longitude !== null
+      ? { latitude, longitude, source: 'manual', label: params.get('label')?.trim() || undefined }
+      : null,
+  };
+}
+
+/**
+ * Reads a route from a location hash such as `#/maps?q=coffee&sort=nearest`. Unknown
+ * modes fall back to the Local Guide; invalid parameters are dropped.
+ */
+export function parseRoute(hash: string): Route {
+  const [path, search = ''] = hash.replace(/^#\/?/, '').split('?');
+  const mode = APP_MODES.includes(path as AppMode) ? (path as AppMode) : DEFAULT_MODE;
+  return {
+    mode,
+    localGuide: mode === 'maps' ? parseLocalGuide(new URLSearchParams(search)) : null,
+  };
+}
+
+/**
+ * The location hash for a route; defaults are left out to keep links short.
+ */
+export function formatRoute(route: Route): string {
+  const link = route.mode === 'maps' ? route.localGuide : null;
+  if (!link) {
+    return `#/${route.mode}`;
+  }
+  const params = new URLSearchParams({ q: link.query });
+  if (link.filters.priceRange) params.set('price', link.filters.priceRange);
+  if (link.filters.cuisineType) params.set('cuisine', link.filters.cuisineType);
+  if (link.filters.amenities.length > 0) params.set('amenities', link.filters.amenities.join(','));
+  if (link.groundingMode !== 'auto') params.set('grounding', link.groundingMode);
+  if (link.sortOrder !== 'default') params.set('sort', link.sortOrder);
+  if (link.location) {
+    params.set('lat', String(link.location.latitude));
+    params.set('lng', String(link.location.longitude));
+    if (link.location.label) params.set('label', link.location.label);
+  }
+  return `#/${route.mode}?${params.toString()}`;
+}
+
+/**
+ * Whether two links describe the same search. The sort order is ignored because
+ * changing it does not need a new search.
+ */
+export function isSameSearch(a: LocalGuideLink, b: LocalGuideLink): boolean {
+  return formatRoute({ mode: 'maps', localGuide: { ...a, sortOrder: 'default' } })
+    === formatRoute({ mode: 'maps', localGuide: { ...b, sortOrder: 'default' } });
+}
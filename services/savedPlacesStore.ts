@@ -0,0 +1,225 @@
+import { Place, SavedPlace, SavedPlaceList } from "../types";
+import { getAll, getAllByIndex, getOne, put, remove, generateId } from "./db";
+import { ImportedPlace } from "./placeExport";
+import { placeFromFields } from "./placeParser";
+
+export const DEFAULT_LIST_NAME = 'My Places';
+
+const EXPORT_FORMAT = 'gemini-local-guide/saved-places';
+const EXPORT_VERSION = 1;
+
+export interface SavedPlacesExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  lists: SavedPlaceList[];
+  places: SavedPlace[];
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+/**
+ * Subscribes to any change in saved lists or places. Returns an unsubscribe function.
+ */
+export function subscribeSavedPlaces(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+export function savedPlaceId(listId: string, placeId: string): string {
+  return `${listId}:${placeId}`;
+}
+
+export async function getLists(): Promise<SavedPlaceList[]> {
+  const lists = await getAll<SavedPlaceList>('savedLists');
+  return lists.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function createList(name: string): Promise<SavedPlaceList> {
+  const list: SavedPlaceList = { id: generateId('list'), name: name.trim() || DEFAULT_LIST_NAME, createdAt: Date.now() };
+  await put('savedLists', list);
+  notify();
+  return list;
+}
+
+// Shared by saves made while the default list is still being looked up or created
+let defaultListPromise: Promise<SavedPlaceList> | null = null;
+
+/**
+ * Returns the first list, creating the default one on first use. Calls that overlap
+ * share one lookup, so two quick saves do not create two default lists.
+ */
+export function getOrCreateDefaultList(): Promise<SavedPlaceList> {
+  if (!defaultListPromise) {
+    defaultListPromise = (async () => {
+      const lists = await getLists();
+      return lists[0] || createList(DEFAULT_LIST_NAME);
+    })().finally(() => {
+      defaultListPromise = null;
+    });
+  }
+  return defaultListPromise;
+}
+
+export async function renameList(listId: string, name: string): Promise<void> {
+  const list = await getOne<SavedPlaceList>('savedLists', listId);
+  if (!list || !name.trim()) return;
+  await put('savedLists', { ...list, name: name.trim() });
+  notify();
+}
+
+/**
+ * Deletes a list together with every place saved in it.
+ */
+export async function deleteList(listId: string): Promise<void> {
+  const places = await getAllByIndex<SavedPlace>('savedPlaces', 'listId', listId);
+  for (const saved of places) {
+    await remove('savedPlaces', saved.id);
+  }
+  await remove('savedLists', listId);
+  notify();
+}
+
+export async function getSavedPlaces(listId?: string): Promise<SavedPlace[]> {
+  const places = listId
+    ? await getAllByIndex<SavedPlace>('savedPlaces', 'listId', listId)
+    : await getAll<SavedPlace>('savedPlaces');
+  return places.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function savePlace(place: Place, listId: string): Promise<SavedPlace> {
+  const id = savedPlaceId(listId, place.id);
+  const existing = await getOne<SavedPlace>('savedPlaces', id);
+  const saved: SavedPlace = existing
+    ? { ...existing, place }
+    : { id, listId, place, note: '', tags: [], savedAt: Date.now() };
+  await put('savedPlaces', saved);
+  notify();
+  return saved;
+}
+
+export async function updateSavedPlace(id: string, changes: Partial<Pick<SavedPlace, 'note' | 'tags'>>): Promise<void> {
+  const saved = await getOne<SavedPlace>('savedPlaces', id);
+  if (!saved) return;
+  await put('savedPlaces', { ...saved, ...changes });
+  notify();
+}
+
+/**
+ * Moves a saved place (with its note and tags) to another list.
+ */
+export async function moveSavedPlace(id: string, targetListId: string): Promise<void> {
+  const saved = await getOne<SavedPlace>('savedPlaces', id);
+  if (!saved || saved.listId === targetListId) return;
+  await remove('savedPlaces', id);
+  await put('savedPlaces', { ...saved, id: savedPlaceId(targetListId, saved.place.id), listId: targetListId });
+  notify();
+}
+
+export async function removeSavedPlace(id: string): Promise<void> {
+  await remove('savedPlaces', id);
+  notify();
+}
+
+export async function exportSavedPlaces(): Promise<SavedPlacesExport> {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    lists: await getLists(),
+    places: await getSavedPlaces(),
+  };
+}
+
+// The members of a JSON object, or none for anything else
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+// Rebuilds a saved place of an export file with the checks of the GeoJSON and CSV
+// importer, and its id from its list and place; null unless valid and in a known list
+function toImportedSavedPlace(value: unknown, index: number, listIds: Set<string>): SavedPlace | null {
+  const saved = asRecord(value);
+  const fields = asRecord(saved.place);
+  const location = asRecord(fields.location);
+  const place = placeFromFields({ ...fields, latitude: location.latitude, longitude: location.longitude }, index);
+  if (!place || typeof saved.listId !== 'string' || !listIds.has(saved.listId)) {
+    return null;
+  }
+  const placeId = typeof fields.id === 'string' && fields.id.trim() ? fields.id.trim() : place.id;
+  const mapsUri = fields.mapsUri;
+  return {
+    id: savedPlaceId(saved.listId, placeId),
+    listId: saved.listId,
+    place: {
+      ...place,
+      id: placeId,
+      mapsUri: typeof mapsUri === 'string' && /^https?:\/\//i.test(mapsUri.trim()) ? mapsUri.trim() : null,
+    },
+    note: typeof saved.note === 'string' ? saved.note : '',
+    tags: Array.isArray(saved.tags) ? saved.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    savedAt: Number(saved.savedAt) || Date.now(),
+  };
+}
+
+/**
+ * Merges an export file into the local collection. Lists and places with the same id
+ * are overwritten; everything else is kept, and invalid places are skipped. Returns
+ * how many records were imported.
+ */
+export async function importSavedPlaces(json: string): Promise<{ lists: number; places: number }> {
+  let data: Partial<SavedPlacesExport>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (data.format !== EXPORT_FORMAT || !Array.isArray(data.lists) || !Array.isArray(data.places)) {
+    throw new Error('The file is not a saved places export.');
+  }
+
+  const lists = data.lists.filter((list) => typeof list?.id === 'string' && typeof list.name === 'string');
+  const listIds = new Set([...lists.map((list) => list.id), ...(await getLists()).map((list) => list.id)]);
+  // Keyed by the recomputed id, so a place listed twice is saved once
+  const places = new Map<string, SavedPlace>();
+  (data.places as unknown[]).forEach((value, index) => {
+    const saved = toImportedSavedPlace(value, index, listIds);
+    if (saved) {
+      places.set(saved.id, saved);
+    }
+  });
+
+  for (const list of lists) {
+    await put('savedLists', { id: list.id, name: list.name, createdAt: Number(list.createdAt) || Date.now() });
+  }
+  for (const saved of places.values()) {
+    await put('savedPlaces', saved);
+  }
+  notify();
+  return { lists: lists.length, places: places.size };
+}
+
+/**
+ * Saves places read from a GeoJSON or CSV file into a new list. Places that appear
+ * twice in the file are saved once.
+ */
+export async function importPlacesAsList(name: string, imported: ImportedPlace[]): Promise<{ list: SavedPlaceList; places: number }> {
+  const list = await createList(name);
+  const saved = new Map<string, SavedPlace>();
+  imported.forEach(({ place, note, tags }, index) => {
+    const id = savedPlaceId(list.id, place.id);
+    saved.set(id, { id, listId: list.id, place, note, tags, savedAt: Date.now() - index });
+  });
+  for (const entry of saved.values()) {
+    await put('savedPlaces', entry);
+  }
+  notify();
+  return { list, places: saved.size };
+}
@@ -0,0 +1,70 @@
+import { SearchHistoryEntry } from "../types";
+import { getAll, put, remove, generateId } from "./db";
+import { normalizePlaceName } from "./placeParser";
+import { locationCell } from "./geo";
+
+// Oldest entries beyond this are dropped so the history does not grow without bound
+const MAX_HISTORY_ENTRIES = 200;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+/**
+ * Subscribes to changes in the search history. Returns an unsubscribe function.
+ */
+export function subscribeSearchHistory(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Identifies "the same search": the query and every filter, ignoring case and spacing,
+ * made from about the same place. Entries with the same signature are compared against
+ * each other in the diff view.
+ */
+export function historySignature(entry: Pick<SearchHistoryEntry, 'query' | 'filters' | 'groundingMode' | 'location'>): string {
+  return JSON.stringify([
+    normalizePlaceName(entry.query),
+    entry.filters.priceRange,
+    entry.filters.cuisineType.toLowerCase(),
+    [...entry.filters.amenities].sort(),
+    entry.groundingMode,
+    ...locationCell(entry.location),
+  ]);
+}
+
+/** Newest first. */
+export async function getHistory(): Promise<SearchHistoryEntry[]> {
+  const entries = await getAll<SearchHistoryEntry>('searchHistory');
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function addHistoryEntry(entry: Omit<SearchHistoryEntry, 'id' | 'createdAt'>): Promise<SearchHistoryEntry> {
+  const saved: SearchHistoryEntry = { ...entry, id: generateId('search'), createdAt: Date.now() };
+  await put('searchHistory', saved);
+
+  const entries = await getHistory();
+  for (const stale of entries.slice(MAX_HISTORY_ENTRIES)) {
+    await remove('searchHistory', stale.id);
+  }
+  notify();
+  return saved;
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await remove('searchHistory', id);
+  notify();
+}
+
+export async function clearHistory(): Promise<void> {
+  for (const entry of await getHistory()) {
+    await remove('searchHistory', entry.id);
+  }
+  notify();
+}
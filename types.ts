@@ -1,28 +1,66 @@
 
-export interface UserLocation {
+export interface LatLng {
   latitude: number;
   longitude: number;
 }
 
+export type LocationSource = 'device' | 'manual';
+
+export interface UserLocation extends LatLng {
+  source: LocationSource; // 'device' from navigator.geolocation, 'manual' when typed, resolved or picked
+  label?: string; // Human-readable name for manual locations, e.g. a resolved address
+}
+
 export interface GroundingChunk {
   maps?: {
     uri?: string;
     title?: string;
+    placeId?: string;
     placeAnswerSources?: {
       reviewSnippets?: {
-        // FIX: Changed 'uri' to 'link' to match the @google/genai library's GroundingChunkMapsPlaceAnswerSourcesReviewSnippet type.
-        link: string;
+        // FIX: Made 'link' optional; newer @google/genai releases report 'googleMapsUri' instead.
+        link?: string;
         // FIX: Added optional 'text' property for review snippet content, as it's typically present.
         text?: string;
+        googleMapsUri?: string;
+        title?: string;
       }[];
     };
   };
   web?: {
-    uri: string;
-    title: string;
+    uri?: string;
+    title?: string;
   };
 }
 
+// Links a span of the response text to the grounding chunks that support it.
+// Offsets are UTF-8 byte offsets into the full response text.
+export interface GroundingSupport {
+  segment?: {
+    startIndex?: number; // Omitted when 0
+    endIndex?: number;
+    text?: string;
+  };
+  groundingChunkIndices?: number[];
+  confidenceScores?: number[];
+}
+
+// One entry of a deduplicated source list, numbered from 1 in order of first appearance
+export interface GroundingSource {
+  number: number;
+  kind: 'maps' | 'web';
+  uri: string;
+  title: string;
+  snippet: string | null; // A review quote for places, else the first sentence it supports
+}
+
+// A citation marker placed after the sentence it supports
+export interface Citation {
+  offset: number; // Character offset in the displayed text where the marker goes
+  text: string; // The supported sentence
+  sourceNumbers: number[];
+}
+
 export interface ImageDataPart {
   inlineData: {
     mimeType: string;
@@ -37,6 +75,136 @@ export interface ChatMessage {
   timestamp: Date;
 }
 
+// Where a conversation comes from: typed General Chat or transcribed Live sessions
+export type ConversationKind = 'chat' | 'live';
+
+export interface Conversation {
+  id: string;
+  kind: ConversationKind;
+  title: string; // Empty until renamed; the first message is shown instead
+  pinned: boolean;
+  messages: ChatMessage[];
+  summary: ConversationSummary | null; // Chat only
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A Live Chat persona: the system instruction a session starts with
+export interface LivePersona {
+  id: string;
+  name: string;
+  instruction: string;
+  builtIn: boolean; // Ships with the app; cannot be changed or deleted
+}
+
+export interface LiveSettings {
+  voiceName: string; // A prebuilt Live voice, e.g. 'Zephyr'
+  personaId: string; // The preset the instruction was picked from
+  instruction: string; // The preset's instruction, possibly edited
+  languageCode: string; // BCP-47 code of the language to speak, or '' to follow the user
+}
+
+// Running summary of the oldest messages of a chat, which are no longer sent verbatim
+export interface ConversationSummary {
+  text: string;
+  messageCount: number; // How many leading messages it covers
+}
+
+/** The app's top-level modes, each with its own route. */
+export type AppMode = 'maps' | 'live-chat' | 'image-analysis' | 'general-chat' | 'complex-query';
+
 export type PriceRange = '$' | '$$' | '$$$' | '$$$$' | '';
 export type CuisineType = string; // Could be a predefined list or free-form text
-export type Amenity = 'Wi-Fi' | 'Outdoor Seating' | 'Pet-Friendly' | 'Parking' | 'Wheelchair Accessible';
\ No newline at end of file
+export type Amenity = 'Wi-Fi' | 'Outdoor Seating' | 'Pet-Friendly' | 'Parking' | 'Wheelchair Accessible';
+
+/** What the user asked for in the Local Guide grounding toggle. */
+export type GroundingMode = 'auto' | 'maps' | 'search' | 'maps+search';
+
+/** The grounding tool(s) actually sent to the model. */
+export type GroundingTool = 'maps' | 'search' | 'maps+search';
+
+export interface PlaceFilters {
+  priceRange: PriceRange;
+  cuisineType: CuisineType;
+  amenities: Amenity[];
+}
+
+/**
+ * A single recommendation returned by the Local Guide, built from the model's
+ * structured output and matched against the Maps grounding chunks.
+ */
+export interface Place {
+  id: string;
+  rank: number; // 1-based position in the model's list
+  name: string;
+  category: string;
+  summary: string;
+  rating: number | null;
+  ratingScale: number | null; // e.g. 5 for '4.5 stars', 10 for '8/10'
+  reviewCount: number | null;
+  priceLevel: Exclude<PriceRange, ''> | null;
+  cuisine: string; // '' when not a place to eat or not reported
+  amenities: Amenity[]; // Only those the model reported; a missing amenity may just be unknown
+  address: string;
+  location: LatLng | null; // Coordinates reported by the model, when known
+  mapsUri: string | null;
+  groundingChunk: GroundingChunk | null;
+}
+
+// A Maps review quote that grounded a recommendation
+export interface PlaceReview {
+  text: string;
+  link: string | null; // The full review on Google Maps
+}
+
+export interface SavedPlaceList {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+}
+
+export interface SavedPlace {
+  id: string; // `${listId}:${place.id}` so a place is saved at most once per list
+  listId: string;
+  place: Place;
+  note: string;
+  tags: string[];
+  savedAt: number; // epoch ms
+}
+
+/** Everything that defines a Local Guide search, so it can be recorded and run again. */
+export interface LocalGuideSearch {
+  query: string;
+  filters: PlaceFilters;
+  groundingMode: GroundingMode;
+  location: UserLocation;
+}
+
+export interface SearchHistoryEntry extends LocalGuideSearch {
+  id: string;
+  createdAt: number; // epoch ms
+  status: 'success' | 'error';
+  error?: string;
+  groundingTool?: GroundingTool;
+  places: Place[];
+}
+
+/** One stop of a day plan. Times are minutes after midnight. */
+export interface ItineraryStop {
+  id: string;
+  kind: 'visit' | 'meal';
+  placeId: string | null; // The recommendation visited; null for a meal slot away from the selected places
+  name: string;
+  startMinutes: number; // Derived from the day's start and the stops before it
+  durationMinutes: number;
+  travelMinutes: number; // From the previous stop, or from the starting point for the first one
+  note: string;
+}
+
+export interface Itinerary {
+  date: string; // YYYY-MM-DD
+  startMinutes: number;
+  endMinutes: number;
+  summary: string;
+  stops: ItineraryStop[];
+}
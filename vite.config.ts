@@ -1,18 +1,31 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { fixturesPlugin } from './vite.fixtures';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Model requests go to the proxy server (npm run server), which holds the API key
+    const apiProxy = {
+      '/api': { target: `http://127.0.0.1:${env.API_PORT || 8787}`, ws: true },
+    };
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        host: env.DEV_HOST || 'localhost', // Set DEV_HOST=0.0.0.0 to open the app from other devices
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
-      plugins: [react()],
+      plugins: [react(), fixturesPlugin(path.resolve(__dirname, env.FIXTURES_DIR || 'fixtures'))],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Never the API key: anything defined here ships in the bundle
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.BROWSER_MODEL_PROVIDER || 'proxy'),
+        'process.env.RECOMMENDATION_CACHE_TTL_MINUTES': JSON.stringify(env.RECOMMENDATION_CACHE_TTL_MINUTES || ''),
+        'process.env.RECOMMENDATION_CACHE_MAX_ENTRIES': JSON.stringify(env.RECOMMENDATION_CACHE_MAX_ENTRIES || ''),
+        'process.env.MAP_TILE_URL': JSON.stringify(env.MAP_TILE_URL || ''),
+        'process.env.MAP_TILE_ATTRIBUTION': JSON.stringify(env.MAP_TILE_ATTRIBUTION || '')
       },
       resolve: {
         alias: {
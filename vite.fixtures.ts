@@ -0,0 +1,64 @@
+import type { Plugin } from 'vite';
+import { FileFixtureStore } from './services/fixtures/fileFixtureStore';
+import { FINGERPRINT_PATTERN } from './services/fixtures/fixtures';
+
+const ROUTE = '/__fixtures';
+
+/**
+ * Dev-server endpoint behind MODEL_PROVIDER=record/replay: GET and PUT
+ * `/__fixtures/<fingerprint>` read and write `<directory>/<fingerprint>.json`.
+ */
+export function fixturesPlugin(directory: string): Plugin {
+  const store = new FileFixtureStore(directory);
+  return {
+    name: 'gemini-fixtures',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(ROUTE, (req, res) => {
+        const fingerprint = (req.url || '').replace(/^\//, '').split('?')[0];
+        const reply = (status: number, body: string) => {
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(body);
+        };
+        if (!FINGERPRINT_PATTERN.test(fingerprint)) {
+          reply(400, JSON.stringify({ error: 'Invalid fixture fingerprint.' }));
+          return;
+        }
+
+        if (req.method === 'GET') {
+          store.read(fingerprint)
+            .then((fixture) => (fixture ? reply(200, JSON.stringify(fixture)) : reply(404, JSON.stringify({ error: 'No such fixture.' }))))
+            .catch((err) => reply(500, JSON.stringify({ error: (err as Error).message })));
+          return;
+        }
+
+        if (req.method === 'PUT') {
+          let body = '';
+          req.setEncoding('utf8');
+          req.on('data', (chunk: string) => { body += chunk; });
+          req.on('end', () => {
+            let fixture;
+            try {
+              fixture = JSON.parse(body);
+            } catch {
+              reply(400, JSON.stringify({ error: 'Body is not valid JSON.' }));
+              return;
+            }
+            if (fixture?.fingerprint !== fingerprint) {
+              reply(400, JSON.stringify({ error: 'Fingerprint in the body does not match the URL.' }));
+              return;
+            }
+            store.write(fixture)
+              .then(() => reply(204, ''))
+              .catch((err) => reply(500, JSON.stringify({ error: (err as Error).message })));
+          });
+          return;
+        }
+
+        res.setHeader('Allow', 'GET, PUT');
+        reply(405, JSON.stringify({ error: 'Method not allowed.' }));
+      });
+    },
+  };
+}